@@ -0,0 +1,229 @@
+import type { ParsedPathSegment, ParsedPathSegmentToken } from './parse'
+import type { RouteTree } from './tree'
+import { comparePathScores, computePathScore, constraintSource, flattenVueRoutes, getVueRoutes, isIndexSegment, toRegExpSegment } from './converters'
+import { walkTree } from './tree'
+
+export interface UnreachableRoute {
+  /**
+   * - `equivalent`: matches exactly the same URLs as `shadowedBy`, e.g.
+   *   `[id].vue` next to `[slug].vue`
+   * - `shadowed`: every URL it matches is matched by the higher-ranked
+   *   `shadowedBy`, e.g. `[slug].vue` next to `[id]/[[tab]].vue`
+   */
+  kind: 'equivalent' | 'shadowed'
+  /** File whose route can never match. */
+  file: string
+  /** Full path of the route, including the paths of parent routes. */
+  path: string
+  /** File of the route that matches instead. */
+  shadowedBy: string
+  /** A URL both routes match, served by `shadowedBy`. */
+  example: string
+}
+
+interface AnalyzedRoute {
+  file: string
+  path: string
+  score: number[][]
+  /** Files of the route and its ancestors. */
+  chain: string[]
+  /** Undefined when the route's segments can't be compared. */
+  elements?: Element[]
+  example: string
+}
+
+/** One path segment of a route, repeated `min` to `max` times. */
+interface Element {
+  match: SegmentMatch
+  min: 0 | 1
+  max: number
+}
+
+type SegmentMatch
+  = | { type: 'static', value: string }
+    | { type: 'pattern', source: string }
+    | { type: 'any' }
+
+/** Values tried, in order, to build example URLs for constrained params. */
+const SAMPLE_VALUES = ['1', 'a', 'a1', '0', '-']
+
+/**
+ * Find routes that can never match because another route always matches
+ * first, using the same ranking as `toVueRouter4`. This covers sibling files
+ * such as `[id].vue` and `[slug].vue`, and files collapsed into the same
+ * route such as `[...all].vue` and `[[...all]].vue`.
+ *
+ * Routes are compared by their full paths, so nested routes are checked
+ * against routes under other parents too. A route is never reported against
+ * its own ancestors or descendants.
+ *
+ * @example
+ * analyzeTree(buildTree(['pages/[id].vue', 'pages/[slug].vue']))
+ * // [{ kind: 'equivalent', file: 'pages/[slug].vue', path: '/:slug()', shadowedBy: 'pages/[id].vue', example: '/1' }]
+ */
+export function analyzeTree(tree: RouteTree): UnreachableRoute[] {
+  const routes = collectRoutes(tree)
+  const issues: UnreachableRoute[] = []
+
+  const ranked = routes.slice().sort((a, b) => comparePathScores(a.score, b.score))
+  ranked.forEach((route, index) => {
+    for (const other of ranked.slice(0, index)) {
+      if (route.chain.includes(other.file) || other.chain.includes(route.file) || !covers(other, route))
+        continue
+      const kind = covers(route, other) ? 'equivalent' : 'shadowed'
+      issues.push({ kind, file: route.file, path: route.path, shadowedBy: other.file, example: route.example })
+      break
+    }
+  })
+
+  // Files collapsed into the same route as another file of the same layer;
+  // overrides from higher-priority layers are intentional
+  const routeByFile = new Map<string, AnalyzedRoute>()
+  for (const route of routes) {
+    const node = tree['~fileIndex'].get(route.file)!
+    const groupKey = node.files.find(f => f.path === route.file)!.groups.join(',')
+    for (const file of node.files.filter(f => f.groups.join(',') === groupKey))
+      routeByFile.set(file.path, route)
+  }
+  walkTree(tree, (node) => {
+    for (const [dedupeKey, stack] of node['~shadowed'] || []) {
+      const winner = node.files.find(f => f['~dedupeKey'] === dedupeKey)!
+      const route = routeByFile.get(winner.path)
+      // Unrouted files, like Next.js slots without a page, serve no URL
+      if (!route)
+        continue
+      for (const file of stack) {
+        if (file.priority === winner.priority && file.layer === winner.layer)
+          issues.push({ kind: 'equivalent', file: file.path, path: route.path, shadowedBy: winner.path, example: route.example })
+      }
+    }
+  })
+
+  return issues
+}
+
+function collectRoutes(tree: RouteTree): AnalyzedRoute[] {
+  const matchers = tree['~matchers']
+  return flattenVueRoutes(getVueRoutes(tree)).map(({ route: vueRoute, path, parents }) => {
+    const file = vueRoute.file!
+    const node = tree['~fileIndex'].get(file)!
+    const { originalSegments } = node.files.find(f => f.path === file)!
+    const segments = originalSegments
+      .map(segment => segment.filter(token => token.type !== 'group'))
+      .filter(segment => segment.length > 0 && !isIndexSegment(segment))
+
+    const elements = segments.map(segment => toElement(segment, matchers))
+    return {
+      file,
+      path,
+      score: computePathScore(path),
+      chain: [...parents.map(parent => parent.route.file!), file],
+      elements: elements.every(Boolean) ? elements as Element[] : undefined,
+      // Optional segments are left out to keep the example short
+      example: `/${segments.filter((_, i) => elements[i]?.min !== 0).map(segment => sampleSegment(segment, matchers)).join('/')}`,
+    }
+  })
+}
+
+function toElement(segment: ParsedPathSegment, matchers?: Record<string, string | RegExp>): Element | undefined {
+  if (segment.every(token => token.type === 'static'))
+    return { match: { type: 'static', value: segment.map(token => token.value).join('') }, min: 1, max: 1 }
+
+  if (segment.length === 1) {
+    const token = segment[0]
+    const source = constraintSource(token, matchers)
+    const match: SegmentMatch = source === undefined ? { type: 'any' } : { type: 'pattern', source }
+    const min = token.type === 'dynamic' || token.type === 'repeatable' ? 1 : 0
+    const max = token.type === 'dynamic' || token.type === 'optional' ? 1 : Infinity
+    return { match, min, max }
+  }
+
+  // Mixed segments like `v[version]` match a single path segment unless they
+  // contain repeatable params, which can't be compared segment by segment
+  if (segment.some(token => token.type === 'repeatable' || token.type === 'optional-repeatable' || token.type === 'catchall'))
+    return undefined
+  const { re, optional } = toRegExpSegment(segment, [], matchers)
+  return { match: { type: 'pattern', source: re.replace(/\(\?<[^>]+>/g, '(') }, min: optional ? 0 : 1, max: 1 }
+}
+
+function sampleSegment(segment: ParsedPathSegment, matchers?: Record<string, string | RegExp>): string {
+  return segment.map(token => token.type === 'static' ? token.value : sampleParam(token, matchers)).join('')
+}
+
+function sampleParam(token: ParsedPathSegmentToken, matchers?: Record<string, string | RegExp>): string {
+  const source = constraintSource(token, matchers)
+  if (source === undefined)
+    return SAMPLE_VALUES[0]
+  const re = new RegExp(`^(?:${source})$`)
+  return SAMPLE_VALUES.find(value => re.test(value)) ?? `:${token.value}`
+}
+
+/** Whether segment match `a` accepts every value `b` accepts. */
+function coversMatch(a: SegmentMatch, b: SegmentMatch): boolean {
+  if (a.type === 'any')
+    return true
+  if (b.type === 'static')
+    return a.type === 'static' ? a.value === b.value : new RegExp(`^(?:${a.source})$`).test(b.value)
+  return a.type === 'pattern' && b.type === 'pattern' && a.source === b.source
+}
+
+/**
+ * Whether route `a` matches every URL route `b` matches. Walks both routes
+ * segment by segment, tracking every position `a` can be in. Conservative:
+ * when unsure, `a` is assumed not to cover `b`.
+ */
+function covers(a: AnalyzedRoute, b: AnalyzedRoute): boolean {
+  const aElements = a.elements
+  const bElements = b.elements
+  if (!aElements || !bElements)
+    return false
+
+  const queue: Array<[State, State[]]> = closure(bElements, [[0, 0]]).map(state => [state, closure(aElements, [[0, 0]])])
+  const seen = new Set<string>()
+  while (queue.length > 0) {
+    const [bState, aStates] = queue.shift()!
+    const key = `${bState}|${aStates.join(';')}`
+    if (seen.has(key))
+      continue
+    seen.add(key)
+
+    const [bIndex, bCount] = bState
+    if (bIndex === bElements.length) {
+      if (!aStates.some(([aIndex]) => aIndex === aElements.length))
+        return false
+      continue
+    }
+
+    // Consume one path segment matched by `b`, in every way `a` can match it
+    const element = bElements[bIndex]
+    if (bCount === 1 && element.max === 1)
+      continue
+    const next = closure(aElements, aStates
+      .filter(([aIndex, aCount]) =>
+        aIndex < aElements.length
+        && (aCount === 0 || aElements[aIndex].max === Infinity)
+        && coversMatch(aElements[aIndex].match, element.match))
+      .map(([aIndex]) => [aIndex, 1]))
+    for (const state of closure(bElements, [[bIndex, 1]]))
+      queue.push([state, next])
+  }
+  return true
+}
+
+/** Position in a route: element index and whether it was matched at least once. */
+type State = [index: number, count: 0 | 1]
+
+/** States reachable by skipping elements that were matched often enough. */
+function closure(elements: Element[], states: State[]): State[] {
+  const result = new Map<string, State>()
+  for (let state of states) {
+    while (!result.has(`${state}`)) {
+      result.set(`${state}`, state)
+      const [index, count] = state
+      if (index === elements.length || count < elements[index].min)
+        break
+      state = [index + 1, 0]
+    }
+  }
+  return [...result.values()].sort((x, y) => x[0] - y[0] || x[1] - y[1])
+}
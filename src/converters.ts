@@ -1,4 +1,4 @@
-import type { ParsedPathSegment, ParsedPathSegmentToken } from './parse'
+import type { ParsedPathSegment, ParsedPathSegmentToken, SegmentType } from './parse'
 import type { RouteNodeFile, RouteTree } from './tree'
 
 import escapeStringRegexp from 'escape-string-regexp'
@@ -74,21 +74,115 @@ export interface VueRouterEmitOptions<Attrs extends Record<string, string[]> = {
 export interface Rou3Route {
   path: string
   file: string
+  /** Layer the file comes from, when set on the input file. */
+  layer?: string
+  /** Param names mapped to the keys rou3 returns them under. Only set for routes with params. */
+  params?: Record<string, string>
+  /**
+   * HTTP method the file handles, uppercased, or `''` for any method. Only
+   * set with the `methods` option.
+   */
+  method?: string
+  /** Modes of the file and its mode variants; with `methods`, of the file only. */
+  modes?: string[]
+  /** Route groups the file is in. */
+  groups?: string[]
+  /** Named view files keyed by view name. Only present when named views exist. */
+  components?: Record<string, string>
+}
+
+export interface ToRou3Options {
+  /**
+   * Modes that name HTTP methods, e.g. `['get', 'post']`. When set, each mode
+   * variant of a route (`users/[id].get.ts`, `users/[id].post.ts`) becomes its
+   * own entry with a `method`, ready for rou3's
+   * `addRoute(router, method, path, data)`. Files without a method mode get
+   * `method: ''`, which rou3 matches for any method.
+   */
+  methods?: string[]
+  /**
+   * What to do with routes rou3 cannot represent, such as a catch-all that
+   * isn't the last segment (`[...slug]/edit.vue`). The route is reported in
+   * `issues` either way.
+   *
+   * - `'collapse'` — emit the route up to that segment followed by a `**`
+   *   catch-all, which also matches nested paths the file doesn't.
+   * - `'skip'` — leave the route out.
+   *
+   * @default 'collapse'
+   */
+  unsupported?: 'collapse' | 'skip'
+}
+
+export interface ToRou3Result {
+  routes: Rou3Route[]
+  /**
+   * One entry per lossy step taken during conversion, e.g. a dropped
+   * constraint, a renamed param or a collapsed route. Empty when the
+   * conversion is faithful.
+   */
+  issues: ToRou3Issue[]
+}
+
+export type ToRou3Issue
+  = | {
+    /**
+     * - `dropped-regexp`: a param constraint rou3 cannot enforce was dropped.
+     * - `collapsed`: the route was emitted with a `**` catch-all from the
+     *   first segment rou3 cannot represent.
+     * - `skipped`: the route was left out because rou3 cannot represent it.
+     */
+    type: 'dropped-regexp' | 'collapsed' | 'skipped'
+    /** File the affected route was generated from. */
+    file: string
+    /** The param involved, if the issue concerns a single param. */
+    param?: string
+    message: string
+  }
+  | ParamNameIssue
+
+/**
+ * A param a converter emits under a different name, because the name isn't
+ * valid there (`[user.id]` → `userid`) or clashes with another param once
+ * sanitized (`[user.id]` next to `[userid]` → `userid_1`).
+ */
+export interface ParamNameIssue {
+  type: 'renamed-param' | 'param-collision'
+  /** File the affected route was generated from. */
+  file: string
+  /** The param name as written in the file. */
+  param: string
+  /** Key the param is emitted under. */
+  key: string
+  message: string
 }
 
 export interface RegExpRoute {
   pattern: RegExp
   keys: string[]
   file: string
+  /** Layer the file comes from, when set on the input file. */
+  layer?: string
+  /** Param names mapped to their capture group names. Only set for routes with params. */
+  params?: Record<string, string>
+}
+
+export interface ToRegExpResult {
+  routes: RegExpRoute[]
+  /** One entry per param emitted under a different capture group name. */
+  issues: ParamNameIssue[]
 }
 
 // --- Flatten tree ------------------------------------------------------------
 
 interface FlatFileInfo {
   file: string
+  layer?: string
   relativePath: string
   segments: ParsedPathSegment[]
   groups: string[]
+  /** The file and its mode variants. */
+  variants: RouteNodeFile[]
   siblingFiles: RouteNodeFile[]
 }
 
@@ -98,9 +192,10 @@ function flattenTree(tree: RouteTree): FlatFileInfo[] {
     const defaults = node.files.filter(f => f.viewName === 'default')
     const views = node.files.filter(f => f.viewName !== 'default')
 
-    // Group by group-path — mode variants share a group path
+    // Group by group-path — mode variants share a group path. Without a
+    // default, named views stand in for it unless they are view-only
     const byGroupPath = new Map<string, RouteNodeFile[]>()
-    for (const f of (defaults.length > 0 ? defaults : node.files)) {
+    for (const f of (defaults.length > 0 ? defaults : views.filter(f => !f.viewOnly))) {
       const key = f.groups.join(',')
       let group = byGroupPath.get(key)
       if (!group) {
@@ -119,9 +214,11 @@ function flattenTree(tree: RouteTree): FlatFileInfo[] {
       }
       infos.push({
         file: primary.path,
+        layer: primary.layer,
         relativePath: primary.relativePath,
         segments,
         groups: primary.groups,
+        variants: groupFiles,
         siblingFiles: [
           ...groupFiles,
           ...views.filter(v => v.groups.join(',') === groupKey),
@@ -133,6 +230,66 @@ function flattenTree(tree: RouteTree): FlatFileInfo[] {
   return infos
 }
 
+/**
+ * Whether the file has no path segments at all, like Next.js `app/layout.tsx`
+ * or TanStack `__root.tsx`. Files in groups only (`(group).vue`) don't count.
+ */
+function isRootLayout(info: FlatFileInfo): boolean {
+  return info.variants[0].originalSegments.length === 0
+}
+
+/** Copy the file's layer onto a converted route, if it has one. */
+function withLayer<T extends { layer?: string }>(route: T, info: FlatFileInfo): T {
+  if (info.layer !== undefined)
+    route.layer = info.layer
+  return route
+}
+
+/** Set the param key mapping on a converted route, if it has params. */
+function withParams<T extends { params?: Record<string, string> }>(route: T, params: Record<string, string>): T {
+  if (Object.keys(params).length > 0)
+    route.params = params
+  return route
+}
+
+/**
+ * Key a converter emits each param under. Names that are valid as-is keep
+ * their key; sanitized names that clash with another param get a numeric
+ * suffix. Changed names are reported to `report`.
+ */
+function createParamKeys(
+  info: FlatFileInfo,
+  sanitize: (name: string) => string,
+  target: string,
+  report: (issue: ParamNameIssue) => void,
+): { params: Record<string, string>, key: (name: string) => string } {
+  const params: Record<string, string> = {}
+  const used = new Set(info.segments.flat()
+    .filter(token => token.type !== 'static' && token.type !== 'group' && sanitize(token.value) === token.value)
+    .map(token => token.value))
+
+  const key = (name: string): string => {
+    let key = sanitize(name)
+    if (key !== name) {
+      if (used.has(key)) {
+        const sanitized = key
+        let index = 1
+        while (used.has(`${sanitized}_${index}`))
+          index++
+        key = `${sanitized}_${index}`
+        report({ type: 'param-collision', file: info.file, param: name, key, message: `Param "${name}" in "${info.file}" clashes with "${sanitized}" once sanitized and is emitted as "${key}"` })
+      }
+      else {
+        report({ type: 'renamed-param', file: info.file, param: name, key, message: `Param "${name}" in "${info.file}" is emitted as "${key}" because ${target} cannot contain "." or start with a digit` })
+      }
+      used.add(key)
+    }
+    params[name] = key
+    return key
+  }
+  return { params, key }
+}
+
 // --- Vue Router 4 ------------------------------------------------------------
 
 /**
@@ -144,6 +301,9 @@ interface CachedVueRouterResult {
   routes: VueRoute[]
   /** The options fingerprint — if options change, cache is invalid. */
   optionsKey: string
+  /** Callbacks the routes were built with, compared by identity. */
+  getRouteName?: VueRouterEmitOptions['getRouteName']
+  onDuplicateRouteName?: VueRouterEmitOptions['onDuplicateRouteName']
 }
 
 /** Deep-clone a VueRoute array. */
@@ -183,10 +343,6 @@ function optionsToKey(options?: VueRouterEmitOptions<Record<string, string[]>>):
   if (!options)
     return ''
   const parts: string[] = []
-  if (options.getRouteName)
-    parts.push('n')
-  if (options.onDuplicateRouteName)
-    parts.push('d')
   if (options.attrs) {
     for (const [k, v] of Object.entries(options.attrs)) {
       parts.push(`a:${k}=${v.join(',')}`)
@@ -207,55 +363,121 @@ export function toVueRouter4<const Attrs extends Record<string, string[]> = neve
   // eslint-disable-next-line ts/no-empty-object-type
   options?: VueRouterEmitOptions<[Attrs] extends [never] ? {} : Attrs>,
 ): VueRoute<[Attrs] extends [never] ? {} : Attrs>[] { // eslint-disable-line ts/no-empty-object-type
-  const key = optionsToKey(options as VueRouterEmitOptions<Record<string, string[]>>)
+  const emitOptions = options as VueRouterEmitOptions<Record<string, string[]>> | undefined
+  const key = optionsToKey(emitOptions)
   const cached = (tree as any)['~cachedVueRouter'] as CachedVueRouterResult | undefined
 
-  if (!tree['~dirty'] && cached && cached.optionsKey === key) {
+  if (
+    !tree['~dirty'] && cached && cached.optionsKey === key
+    && cached.getRouteName === emitOptions?.getRouteName
+    && cached.onDuplicateRouteName === emitOptions?.onDuplicateRouteName
+  ) {
     return cloneRoutes(cached.routes) as VueRoute<any>[]
   }
 
+  const routes = buildVueRoutes(tree, emitOptions)
+
+  // Cache on the tree
+  ;(tree as any)['~cachedVueRouter'] = {
+    routes,
+    optionsKey: key,
+    getRouteName: emitOptions?.getRouteName,
+    onDuplicateRouteName: emitOptions?.onDuplicateRouteName,
+  } satisfies CachedVueRouterResult
+  tree['~dirty'] = false
+
+  return cloneRoutes(routes) as VueRoute<any>[]
+}
+
+/** `toVueRouter4` routes for internal helpers, by tree. */
+const internalRoutesCache = new WeakMap<RouteTree, InternalRoutesCache>()
+
+interface InternalRoutesCache {
+  /** `~revision` of the tree the routes were built from. */
+  revision: number
+  routes?: VueRoute[]
+  byRouteName: WeakMap<NonNullable<VueRouterEmitOptions['getRouteName']>, VueRoute[]>
+}
+
+/**
+ * `toVueRouter4` routes for read-only helpers like `matchFile`, cached until
+ * the tree changes. Unlike `toVueRouter4`, it leaves `~dirty` alone, so it
+ * never hides a change from whoever regenerates routes. Must not be mutated.
+ * @internal
+ */
+export function getVueRoutes(tree: RouteTree, options: Pick<VueRouterEmitOptions, 'getRouteName'> = {}): VueRoute[] {
+  let cache = internalRoutesCache.get(tree)
+  if (!cache || cache.revision !== tree['~revision']) {
+    cache = { revision: tree['~revision'], byRouteName: new WeakMap() }
+    internalRoutesCache.set(tree, cache)
+  }
+
+  const { getRouteName } = options
+  let routes = getRouteName ? cache.byRouteName.get(getRouteName) : cache.routes
+  if (!routes) {
+    routes = buildVueRoutes(tree, { getRouteName })
+    if (getRouteName)
+      cache.byRouteName.set(getRouteName, routes)
+    else
+      cache.routes = routes
+  }
+  return routes
+}
+
+function buildVueRoutes(tree: RouteTree, options?: VueRouterEmitOptions<Record<string, string[]>>): VueRoute[] {
   const fileInfos = flattenTree(tree)
 
   fileInfos.sort((a, b) =>
-    a.relativePath.length - b.relativePath.length
+    Number(!isRootLayout(a)) - Number(!isRootLayout(b))
+    || a.relativePath.length - b.relativePath.length
     || collator.compare(a.relativePath, b.relativePath),
   )
 
   const routes: IntermediateRoute[] = []
+  // Root layouts (e.g. Next.js `app/layout.tsx`) wrap every top-level route
+  let rootRoutes = routes
 
   for (const info of fileInfos) {
     const route: IntermediateRoute = {
       name: '',
       path: '',
       file: info.file,
+      layer: info.layer,
       children: [],
       groups: info.groups,
       siblingFiles: info.siblingFiles,
     }
-    let parent = routes
+    let parent = rootRoutes
 
-    if (info.segments.length === 0)
+    if (isRootLayout(info)) {
       route.path = '/'
-
+      routes.push(route)
+      rootRoutes = route.children
+      continue
+    }
     for (let i = 0; i < info.segments.length; i++) {
       const seg = info.segments[i]
       const isIndex = isIndexSegment(seg)
+      // Pathless layouts (a group with no path) are named after their group
       const segmentName = isIndex
         ? 'index'
-        : seg.map(t => t.type === 'group' ? '' : t.value).join('')
+        : seg.map(t => t.type === 'group' ? '' : t.value).join('') || seg.map(t => t.value).filter(Boolean).join('-')
 
       route.name += (route.name && '/') + segmentName
 
       const nextSeg = i < info.segments.length - 1 ? info.segments[i + 1] : undefined
       const hasNextNonIndex = !!nextSeg && !isIndexSegment(nextSeg)
-      const routePath = `/${toVueRouterSegment(seg, { hasSucceeding: hasNextNonIndex })}`
+      const segmentPath = toVueRouterSegment(seg, { hasSucceeding: hasNextNonIndex, matchers: tree['~matchers'] })
+      const routePath = `/${segmentPath}`
       const fullPath = joinURL(route.path || '/', isIndex ? '/' : routePath)
       const normalizedFullPath = fullPath.replaceAll('([^/]*)*', '(.*)*')
 
-      const match = parent.find(r =>
-        r.name === route.name
-        && r.path === normalizedFullPath,
-      )
+      const match = seg.some(t => t.unnested)
+        ? undefined
+        : parent.find(r =>
+            r.name === route.name
+            && r.path === normalizedFullPath,
+          )
 
       if (match?.children) {
         parent = match.children
@@ -264,30 +486,107 @@ export function toVueRouter4<const Attrs extends Record<string, string[]> = neve
       else if (segmentName === 'index' && !route.path) {
         route.path += '/'
       }
-      else if (segmentName !== 'index') {
+      // Pathless layouts add no path of their own
+      else if (segmentName !== 'index' && segmentPath) {
         route.path += routePath
       }
     }
+    route.path ||= '/'
 
     parent.push(route)
   }
 
-  const result = prepareRoutes(routes, undefined, options as VueRouterEmitOptions<Record<string, string[]>>)
+  return prepareRoutes(routes, undefined, options)
+}
 
-  // Cache on the tree
-  ;(tree as any)['~cachedVueRouter'] = { routes: result, optionsKey: key } satisfies CachedVueRouterResult
-  tree['~dirty'] = false
+/**
+ * A route emitted by `toVueRouter4`, with its full path and ancestors.
+ * @internal
+ */
+export interface FlatVueRoute {
+  route: VueRoute
+  /** Full path, including the paths of parent routes. */
+  path: string
+  /** Routes from the top level down to the parent route. */
+  parents: FlatVueRoute[]
+}
 
-  return cloneRoutes(result) as VueRoute<any>[]
+/**
+ * Flatten emitted routes depth-first, parents before their children.
+ * @internal
+ */
+export function flattenVueRoutes(routes: VueRoute[]): FlatVueRoute[] {
+  const flat: FlatVueRoute[] = []
+  ;(function walk(children: VueRoute[], parents: FlatVueRoute[]) {
+    for (const route of children) {
+      const entry: FlatVueRoute = { route, path: parents.length ? joinURL(parents.at(-1)!.path, route.path) : route.path, parents }
+      flat.push(entry)
+      walk(route.children, [...parents, entry])
+    }
+  })(routes, [])
+  return flat
 }
 
 // --- rou3 --------------------------------------------------------------------
 
-export function toRou3(tree: RouteTree): Rou3Route[] {
-  return flattenTree(tree).map((info) => {
+/** rou3 reads a constraint up to the first `)` and splits patterns on `/`. */
+const ROU3_UNSUPPORTED_CONSTRAINT_RE = /[/()]/
+
+/**
+ * Convert a route tree to rou3 route patterns.
+ *
+ * Param constraints (`[id(\\d+)]`, `[id=int]`) are kept on plain and
+ * optional params; where rou3 cannot enforce them they are dropped and
+ * reported in `issues`. Params rou3 can't use as named (`[user.id]`) are
+ * renamed; `params` on each route maps them to the emitted keys.
+ *
+ * Routes rou3 cannot represent at all, such as `[...slug]/edit.vue`, are
+ * collapsed or skipped according to `unsupported` and reported in `issues`,
+ * so one file never breaks the output for the whole app.
+ */
+export function toRou3(tree: RouteTree, options: ToRou3Options = {}): ToRou3Result {
+  const matchers = tree['~matchers']
+  const unsupported = options.unsupported ?? 'collapse'
+  const issues: ToRou3Issue[] = []
+  const report = (issue: ToRou3Issue) => issues.push(issue)
+
+  const routes: Rou3Route[] = []
+  for (const info of flattenTree(tree)) {
+    const { params, key } = createParamKeys(info, sanitizeRou3Param, 'rou3 param names', report)
+    const toRou3Constraint = (token: ParsedPathSegmentToken, supported: boolean): string => {
+      const source = constraintSource(token, matchers)
+      if (source === undefined)
+        return ''
+      if (supported && !ROU3_UNSUPPORTED_CONSTRAINT_RE.test(source))
+        return `(${source})`
+      report({
+        type: 'dropped-regexp',
+        file: info.file,
+        param: token.value,
+        message: supported
+          ? `Dropped constraint "(${source})" on param "${token.value}" in "${info.file}" because rou3 cannot represent constraints containing "/" or parentheses`
+          : `Dropped constraint "(${source})" on ${token.type} param "${token.value}" in "${info.file}" because rou3 does not enforce it there`,
+      })
+      return ''
+    }
+
     let path = '/'
+    let skipped = false
     for (let segmentIndex = 0; segmentIndex < info.segments.length; segmentIndex++) {
       const segment = info.segments[segmentIndex]
+      const problem = findUnsupportedRou3Segment(info.segments, segmentIndex)
+      if (problem) {
+        if (unsupported === 'skip') {
+          report({ type: 'skipped', file: info.file, param: problem.param, message: `Skipped "${info.file}" because ${problem.reason}` })
+          skipped = true
+        }
+        else {
+          path = joinURL(path, '**')
+          report({ type: 'collapsed', file: info.file, param: problem.param, message: `Collapsed "${info.file}" into "${path}" because ${problem.reason}; the pattern also matches nested paths` })
+        }
+        break
+      }
+
       const hasPatternToken = segment.some(token => token.type !== 'group' && token.type !== 'static')
       let part = ''
       for (const token of segment) {
@@ -299,31 +598,28 @@ export function toRou3(tree: RouteTree): Rou3Route[] {
             break
           }
           case 'dynamic': {
-            part += token.value ? `:${sanitizeRou3Param(token.value)}` : '*'
+            part += token.value ? `:${key(token.value)}${toRou3Constraint(token, true)}` : '*'
             break
           }
           case 'optional': {
             part += token.value
               ? isOwnRou3PathSegment(segment)
-                ? `:${sanitizeRou3Param(token.value)}?`
-                : `:${sanitizeRou3Param(token.value)}(.*)`
+                ? `:${key(token.value)}${toRou3Constraint(token, true)}?`
+                : `:${key(token.value)}(.*)${toRou3Constraint(token, false)}`
               : '*'
             break
           }
           case 'catchall': {
-            assertTerminalRou3Repeatable(info.segments, segmentIndex, segment, 'catchall')
             // `[...slug]` is zero-or-more; rou3's named `**:slug` does not match an empty tail.
-            part += token.value ? `:${sanitizeRou3Param(token.value)}*` : '**'
+            part += token.value ? `:${key(token.value)}*${toRou3Constraint(token, false)}` : '**'
             break
           }
           case 'repeatable': {
-            assertTerminalRou3Repeatable(info.segments, segmentIndex, segment, 'repeatable')
-            part += token.value ? `:${sanitizeRou3Param(token.value)}+` : '**:_'
+            part += token.value ? `:${key(token.value)}+${toRou3Constraint(token, false)}` : '**:_'
             break
           }
           case 'optional-repeatable': {
-            assertTerminalRou3Repeatable(info.segments, segmentIndex, segment, 'optional repeatable')
-            part += token.value ? `:${sanitizeRou3Param(token.value)}*` : '**'
+            part += token.value ? `:${key(token.value)}*${toRou3Constraint(token, false)}` : '**'
             break
           }
         }
@@ -331,8 +627,37 @@ export function toRou3(tree: RouteTree): Rou3Route[] {
       if (part)
         path = joinURL(path, part)
     }
-    return { path, file: info.file }
-  })
+    if (skipped)
+      continue
+
+    const shared = withParams<Omit<Rou3Route, 'path' | 'file'>>({}, params)
+    if (info.groups.length > 0)
+      shared.groups = info.groups
+    const views = info.siblingFiles.filter(f => f.viewName !== 'default')
+    if (views.length > 0)
+      shared.components = Object.fromEntries([['default', info.file], ...views.map(v => [v.viewName, v.path])])
+
+    if (!options.methods) {
+      const route = withLayer<Rou3Route>({ path, file: info.file, ...shared }, info)
+      const modes = new Set(info.siblingFiles.flatMap(f => f.modes || []))
+      if (modes.size > 0)
+        route.modes = [...modes]
+      routes.push(route)
+      continue
+    }
+
+    // One entry per mode variant, keyed by the method it handles
+    for (const file of info.variants) {
+      const method = file.modes?.find(mode => options.methods!.includes(mode))
+      const route: Rou3Route = { method: method?.toUpperCase() ?? '', path, file: file.path, ...shared }
+      if (file.layer !== undefined)
+        route.layer = file.layer
+      if (file.modes)
+        route.modes = file.modes
+      routes.push(route)
+    }
+  }
+  return { routes, issues }
 }
 
 function sanitizeRou3Param(value: string): string {
@@ -348,7 +673,7 @@ function toRou3StaticSegment(segment: string): string {
       return '\\*'
     if (segment === '**')
       return '\\*\\*'
-    throw new TypeError(`[unrouting] \`toRou3\` cannot represent static segment "${segment}" because rou3 treats \`*\` as a wildcard`)
+    throw new TypeError(`[unrouting] \`vueRouterToRou3\` cannot represent static segment "${segment}" because rou3 treats \`*\` as a wildcard`)
   }
 
   return segment.replace(ROU3_STATIC_SEGMENT_ESCAPE_RE, char => `\\${char}`)
@@ -372,12 +697,29 @@ function toRou3RegexStaticSegment(segment: string): string {
   return result
 }
 
-function assertTerminalRou3Repeatable(segments: ParsedPathSegment[], segmentIndex: number, segment: ParsedPathSegment, type: string): void {
-  if (!isOwnRou3PathSegment(segment))
-    throw new TypeError(`[unrouting] \`toRou3\` only supports ${type} parameters as their own segment`)
+const ROU3_REPEATABLE_TYPES: Partial<Record<SegmentType, string>> = {
+  'catchall': 'catchall',
+  'repeatable': 'repeatable',
+  'optional-repeatable': 'optional repeatable',
+}
+
+/** Why rou3 cannot represent a segment of a route, if it can't. */
+function findUnsupportedRou3Segment(segments: ParsedPathSegment[], segmentIndex: number): { reason: string, param?: string } | undefined {
+  const segment = segments[segmentIndex]
+  const hasPatternToken = segment.some(token => token.type !== 'group' && token.type !== 'static')
+  for (const token of segment) {
+    if (token.type === 'static' && !hasPatternToken && token.value.includes('*') && token.value !== '*' && token.value !== '**')
+      return { reason: `rou3 treats \`*\` in static segment "${token.value}" as a wildcard` }
 
-  if (segments.slice(segmentIndex + 1).some(hasRou3PathSegment))
-    throw new TypeError(`[unrouting] \`toRou3\` only supports ${type} parameters at the end of a route`)
+    const type = ROU3_REPEATABLE_TYPES[token.type]
+    if (!type)
+      continue
+    if (!isOwnRou3PathSegment(segment))
+      return { reason: `rou3 only supports ${type} parameters as their own segment`, param: token.value }
+    if (segments.slice(segmentIndex + 1).some(hasRou3PathSegment))
+      return { reason: `rou3 only supports ${type} parameters at the end of a route`, param: token.value }
+  }
+  return undefined
 }
 
 function isOwnRou3PathSegment(segment: ParsedPathSegment): boolean {
@@ -756,58 +1098,171 @@ function parseVueRouterSegment(segment: string): VueRouterPathToken[] {
 
 // --- RegExp ------------------------------------------------------------------
 
-export function toRegExp(tree: RouteTree): RegExpRoute[] {
-  return flattenTree(tree).map((info) => {
+/**
+ * Convert a route tree to regular expressions with a named capture group per
+ * param. Params that aren't valid group names (`[user.id]`) are renamed;
+ * `params` on each route maps them to the emitted names and each rename is
+ * returned in `issues`.
+ */
+export function toRegExp(tree: RouteTree): ToRegExpResult {
+  const matchers = tree['~matchers']
+  const issues: ParamNameIssue[] = []
+  const report = (issue: ParamNameIssue) => issues.push(issue)
+
+  const routes = flattenTree(tree).map((info) => {
+    const { params, key } = createParamKeys(info, sanitizeCaptureGroup, 'capture group names', report)
     const keys: string[] = []
     let source = '^'
 
     for (const segment of info.segments) {
-      let re = ''
-      for (const token of segment) {
-        const key = sanitizeCaptureGroup(token.value)
-        switch (token.type) {
-          case 'group':
-            break
-          case 'static':
-            re += escapeStringRegexp(token.value)
-            break
-          case 'dynamic':
-            keys.push(key)
-            re += `(?<${key}>[^/]+)`
-            break
-          case 'optional':
-            keys.push(key)
-            re += `(?<${key}>[^/]*)`
-            break
-          case 'repeatable':
-            keys.push(key)
-            re += `(?<${key}>[^/]+(?:/[^/]+)*)`
-            break
-          case 'optional-repeatable':
-            keys.push(key)
-            re += `(?<${key}>[^/]*(?:/[^/]+)*)`
-            break
-          case 'catchall':
-            keys.push(key)
-            re += `(?<${key}>.*)`
-            break
-        }
-      }
-
-      const isOptional = segment.every(t =>
-        t.type === 'optional' || t.type === 'catchall' || t.type === 'group' || t.type === 'optional-repeatable',
-      )
+      const { re, optional } = toRegExpSegment(segment, keys, matchers, key)
       if (re)
-        source += isOptional ? `(?:\\/${re})?` : `\\/${re}`
+        source += optional ? `(?:\\/${re})?` : `\\/${re}`
     }
 
     source += '\\/?$'
-    return { pattern: new RegExp(source), keys, file: info.file }
+    return withParams(withLayer<RegExpRoute>({ pattern: new RegExp(source), keys, file: info.file }, info), params)
   })
+  return { routes, issues }
+}
+
+/**
+ * Regexp source for one path segment, without the leading `/`. Param names
+ * are pushed to `keys` in order. `optional` segments may be left out entirely.
+ * @internal
+ */
+export function toRegExpSegment(
+  segment: ParsedPathSegment,
+  keys: string[],
+  matchers?: Record<string, string | RegExp>,
+  toKey: (name: string) => string = sanitizeCaptureGroup,
+): { re: string, optional: boolean } {
+  let re = ''
+  for (const token of segment) {
+    const key = token.type === 'static' || token.type === 'group' ? '' : toKey(token.value)
+    const matcher = constraintSource(token, matchers)
+    // Each path segment captured by a matched param must satisfy the matcher
+    const part = matcher === undefined ? undefined : `(?:${matcher})`
+    switch (token.type) {
+      case 'group':
+        break
+      case 'static':
+        re += escapeStringRegexp(token.value)
+        break
+      case 'dynamic':
+        keys.push(key)
+        re += `(?<${key}>${part ?? '[^/]+'})`
+        break
+      case 'optional':
+        keys.push(key)
+        re += part ? `(?<${key}>${part}?)` : `(?<${key}>[^/]*)`
+        break
+      case 'repeatable':
+        keys.push(key)
+        re += part ? `(?<${key}>${part}(?:/${part})*)` : `(?<${key}>[^/]+(?:/[^/]+)*)`
+        break
+      case 'optional-repeatable':
+        keys.push(key)
+        re += part ? `(?<${key}>(?:${part}(?:/${part})*)?)` : `(?<${key}>[^/]*(?:/[^/]+)*)`
+        break
+      case 'catchall':
+        keys.push(key)
+        re += part ? `(?<${key}>(?:${part}(?:/${part})*)?)` : `(?<${key}>.*)`
+        break
+    }
+  }
+
+  const optional = segment.every(t =>
+    t.type === 'optional' || t.type === 'catchall' || t.type === 'group' || t.type === 'optional-repeatable',
+  )
+  return { re, optional }
 }
 
 // --- Route ordering ----------------------------------------------------------
 
+/** Scores vue-router gives to the parts of a path segment. */
+const PathScore = {
+  Segment: 40,
+  Static: 40,
+  Dynamic: 20,
+  BonusCustomRegExp: 10,
+  BonusWildcard: -50,
+  BonusRepeatable: -20,
+  BonusOptional: -8,
+} as const
+
+/**
+ * Ranking score of a Vue Router path, ported from vue-router: one array per
+ * segment, with a score for each static part and param in it.
+ * @internal
+ */
+export function computePathScore(path: string): number[][] {
+  // vue-router reads `/` as a single empty static segment. Emitted paths have
+  // no other empty segments, which vue-router would score as a root
+  const segments = path === '/' ? [[{ type: 'static', value: '', modifier: '' } as const]] : splitVueRouterSegments(path).slice(1).map(parseVueRouterSegment)
+  return segments.map(tokens =>
+    tokens.map((token) => {
+      if (token.type === 'static')
+        return PathScore.Segment + PathScore.Static
+      let score = PathScore.Segment + PathScore.Dynamic
+      if (token.regexp)
+        score += PathScore.BonusCustomRegExp
+      if (token.modifier === '?' || token.modifier === '*')
+        score += PathScore.BonusOptional
+      if (token.modifier === '+' || token.modifier === '*')
+        score += PathScore.BonusRepeatable
+      if (token.regexp === '.*')
+        score += PathScore.BonusWildcard
+      return score
+    }),
+  )
+}
+
+/**
+ * Negative when path score `a` ranks before `b`, zero when vue-router keeps
+ * the routes in the order they were added.
+ * @internal
+ */
+export function comparePathScores(a: number[][], b: number[][]): number {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    const diff = compareSegmentScores(a[i], b[i])
+    if (diff)
+      return diff
+  }
+  // A trailing catch-all ranks below the same path without it
+  if (Math.abs(b.length - a.length) === 1) {
+    if (isLastScoreNegative(a))
+      return 1
+    if (isLastScoreNegative(b))
+      return -1
+  }
+  return b.length - a.length
+}
+
+function compareSegmentScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    const diff = b[i] - a[i]
+    if (diff)
+      return diff
+  }
+  // A fully static segment ranks before longer ones; otherwise longer first
+  const isStatic = (score: number[]) => score.length === 1 && score[0] === PathScore.Segment + PathScore.Static
+  if (a.length < b.length)
+    return isStatic(a) ? -1 : 1
+  if (a.length > b.length)
+    return isStatic(b) ? 1 : -1
+  return 0
+}
+
+function isLastScoreNegative(score: number[][]): boolean {
+  const last = score.at(-1)
+  return !!last && last.at(-1)! < 0
+}
+
+/**
+ * Order of the emitted routes. Vue Router ranks routes itself, so this only
+ * keeps the output stable; see `comparePathScores` for the actual ranking.
+ */
 function compareRoutes(a: IntermediateRoute, b: IntermediateRoute): number {
   const aScore = a.scoreSegments!
   const bScore = b.scoreSegments!
@@ -832,6 +1287,11 @@ export interface ToVueRouterSegmentOptions {
    * when `false` (default), they use `(.*)*` (permissive).
    */
   hasSucceeding?: boolean
+  /**
+   * Matcher registry used to constrain params with a `matcher`
+   * (e.g. `{ int: /^\d+$/ }` turns `[id=int]` into `:id(\d+)`).
+   */
+  matchers?: Record<string, string | RegExp>
 }
 
 /**
@@ -849,6 +1309,8 @@ export function toVueRouterSegment(
   const hasSucceeding = options?.hasSucceeding ?? false
   let out = ''
   for (const token of tokens) {
+    const matcher = constraintSource(token, options?.matchers)
+    const constraint = matcher === undefined ? '' : `(${matcher})`
     switch (token.type) {
       case 'group':
         continue
@@ -857,23 +1319,23 @@ export function toVueRouterSegment(
         break
 
       case 'dynamic':
-        out += `:${token.value}()`
+        out += `:${token.value}${constraint || '()'}`
         break
 
       case 'optional':
-        out += `:${token.value}?`
+        out += `:${token.value}${constraint}?`
         break
 
       case 'repeatable':
-        out += `:${token.value}+`
+        out += `:${token.value}${constraint}+`
         break
 
       case 'optional-repeatable':
-        out += `:${token.value}*`
+        out += `:${token.value}${constraint}*`
         break
 
       case 'catchall':
-        out += hasSucceeding ? `:${token.value}([^/]*)*` : `:${token.value}(.*)*`
+        out += `:${token.value}${constraint || (hasSucceeding ? '([^/]*)' : '(.*)')}*`
         break
     }
   }
@@ -912,7 +1374,8 @@ export function toVueRouterPath(segments: ParsedPathSegment[]): string {
 
 // --- Internals ---------------------------------------------------------------
 
-function isIndexSegment(tokens: ParsedPathSegment): boolean {
+/** @internal */
+export function isIndexSegment(tokens: ParsedPathSegment): boolean {
   return tokens.length === 1 && tokens[0].type === 'static' && tokens[0].value === ''
 }
 
@@ -920,6 +1383,7 @@ interface IntermediateRoute {
   name: string
   path: string
   file: string
+  layer?: string
   children: IntermediateRoute[]
   groups: string[]
   siblingFiles: RouteNodeFile[]
@@ -943,7 +1407,7 @@ function prepareRoutes(
   const attrs = options?.attrs
 
   for (const route of routes) {
-    route.scoreSegments = computeScoreSegments(route)
+    route.scoreSegments = computeScoreSegments(route.path)
   }
   routes.sort(compareRoutes)
 
@@ -971,6 +1435,8 @@ function prepareRoutes(
       out.name = name
     if (route.groups.length > 0)
       out.meta = { ...out.meta, groups: route.groups }
+    if (route.layer !== undefined)
+      out.meta = { ...out.meta, layer: route.layer }
 
     // Named views
     const views = route.siblingFiles.filter(f => f.viewName !== 'default')
@@ -1010,19 +1476,36 @@ function prepareRoutes(
   })
 }
 
-/** Unescaped colon = dynamic param marker in vue-router path format. */
-const UNESCAPED_COLON_RE = /(?:^|[^\\]):/
+/** Scores ordering the emitted routes, one per segment. */
+function computeScoreSegments(path: string): number[] {
+  return splitVueRouterSegments(path).filter(Boolean).map(scoreVueRouterSegment)
+}
 
-function computeScoreSegments(route: IntermediateRoute): number[] {
-  return route.path.split('/').filter(Boolean).map((part) => {
-    if (part.includes('(.*)*') || part.includes('([^/]*)*'))
-      return -400
-    if (UNESCAPED_COLON_RE.test(part))
-      return part.includes('?') ? 100 : part.includes('+') ? 200 : part.includes('*') ? 50 : 300
+function scoreVueRouterSegment(part: string): number {
+  // Tokenize so that custom regexps (e.g. `:id(\\d+)`) aren't read as modifiers
+  const params = parseVueRouterSegment(part).filter(token => token.type === 'param')
+  if (params.length === 0)
     return 400
-  })
+  if (params.some(p => p.modifier === '*' && (p.regexp === '.*' || p.regexp === '[^/]*')))
+    return -400
+  const modifiers = params.map(p => p.modifier)
+  return modifiers.includes('?') ? 100 : modifiers.includes('+') ? 200 : modifiers.includes('*') ? 50 : 300
+}
+
+/**
+ * Regexp source constraining a param: its inline `(regexp)`, or its registered
+ * matcher without `^` / `$` anchors.
+ * @internal
+ */
+export function constraintSource(token: ParsedPathSegmentToken, matchers?: Record<string, string | RegExp>): string | undefined {
+  if (token.regexp)
+    return token.regexp
+  if (!token.matcher || !matchers || !Object.hasOwn(matchers, token.matcher))
+    return undefined
+  const matcher = matchers[token.matcher]
+  return (typeof matcher === 'string' ? matcher : matcher.source).replace(/^\^/, '').replace(/(?<!\\)\$$/, '')
 }
 
 function sanitizeCaptureGroup(value: string): string {
-  return value.replace(/^(\d)/, '_$1').replace(/\./g, '')
+  return value.replace(/\./g, '').replace(/^(\d)/, '_$1') || '_'
 }
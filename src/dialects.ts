@@ -0,0 +1,288 @@
+import type { ParseDialect, ParsedPathSegment, ParsedPathSegmentToken } from './parse'
+import { withTrailingSlash } from 'ufo'
+
+// --- Types -------------------------------------------------------------------
+
+/** A `/`-separated piece of a file path, after roots, extension and modes are stripped. */
+export interface RawSegment {
+  value: string
+  /** Offset of `value` within the stripped path. */
+  offset: number
+}
+
+export interface DialectContext {
+  /** Extension that was stripped from the file (e.g. `'.tsx'`), or `''`. */
+  ext: string
+  /** Parse a segment with the bracket syntax, reporting errors against the original file. */
+  parseSegment: (segment: string, offset: number) => ParsedPathSegmentToken[]
+}
+
+export interface DialectResult {
+  segments: ParsedPathSegment[]
+  /** Named view the file renders into. */
+  view?: string
+  /** Whether the view only renders next to a default view, never as a route of its own. */
+  viewOnly?: boolean
+  /** Modes implied by the file name, added after any detected `.mode` suffixes. */
+  modes?: string[]
+}
+
+/**
+ * A file naming convention. Receives the raw segments of a file and returns
+ * route segments, or `undefined` when the file does not define a route.
+ */
+export interface Dialect {
+  /** Whether `@name` suffixes on file names select a named view. */
+  namedViews: boolean
+  /** Whether `[param=matcher]` sets the token's `matcher`. */
+  paramMatchers?: boolean
+  resolve: (segments: RawSegment[], context: DialectContext) => DialectResult | undefined
+}
+
+// --- Nuxt --------------------------------------------------------------------
+
+const nuxt: Dialect = {
+  namedViews: true,
+  paramMatchers: true,
+  resolve: (segments, context) => ({
+    segments: segments.map(segment => context.parseSegment(segment.value, segment.offset)),
+  }),
+}
+
+// --- Nuxt 2 ------------------------------------------------------------------
+
+/**
+ * Nuxt 2 `_id` / `_` segments, alongside the modern syntax so both can be used
+ * during a migration.
+ */
+const nuxt2: Dialect = {
+  namedViews: true,
+  paramMatchers: true,
+  resolve: (segments, context) => ({
+    segments: segments.map(segment => parseNuxt2Segment(segment.value) ?? context.parseSegment(segment.value, segment.offset)),
+  }),
+}
+
+/** `_id` → dynamic `id`, `_` → catchall `pathMatch`; `undefined` for other segments. */
+export function parseNuxt2Segment(segment: string): ParsedPathSegment | undefined {
+  if (segment === '_')
+    return [{ type: 'catchall', value: 'pathMatch' }]
+  if (segment[0] === '_')
+    return [{ type: 'dynamic', value: segment.slice(1) }]
+  return undefined
+}
+
+export interface MigrateFilePathOptions {
+  /** Root paths left untouched. Longest match wins. */
+  roots?: string[]
+}
+
+/**
+ * Rename a Nuxt 2 file path to the modern bracket syntax, e.g.
+ * `pages/users/_id/_.vue` → `pages/users/[id]/[...pathMatch].vue`.
+ * Segments that are not legacy params are returned unchanged.
+ */
+export function migrateFilePath(filePath: string, options: MigrateFilePathOptions = {}): string {
+  const root = (options.roots || [])
+    .map(root => withTrailingSlash(root))
+    .sort((a, b) => b.length - a.length)
+    .find(root => filePath.startsWith(root)) ?? ''
+
+  const parts = filePath.slice(root.length).split('/')
+  return root + parts.map((part, i) => {
+    // Keep the extension and mode suffixes of the file name
+    const dot = i === parts.length - 1 ? part.indexOf('.') : -1
+    const name = dot > 0 ? part.slice(0, dot) : part
+    const [token] = parseNuxt2Segment(name) ?? []
+    if (!token)
+      return part
+    return (token.type === 'catchall' ? `[...${token.value}]` : `[${token.value}]`) + part.slice(name.length)
+  }).join('/')
+}
+
+// --- Next.js App Router ------------------------------------------------------
+
+const NEXT_ROUTE_FILES = new Set(['page', 'route', 'layout'])
+const NEXT_INTERCEPT_RE = /^\(\.{1,3}\)/
+const NEXT_CATCHALL_RE = /^\[\.{3}[^\]]+\]$/
+
+/**
+ * `app/blog/[slug]/page.tsx` → `/blog/:slug`. Only `page`, `route` and `layout`
+ * files define routes, and `route` handlers are added with the `server` mode.
+ * `_private` folders are skipped and `@slot` folders render
+ * into a named view of the page at the same path. Intercepting routes such as
+ * `(.)photo` only render on client-side navigation and are skipped too.
+ */
+const next: Dialect = {
+  namedViews: false,
+  resolve(segments, context) {
+    const file = segments.at(-1)!.value
+    if (!NEXT_ROUTE_FILES.has(file))
+      return
+
+    let view: string | undefined
+    const result: ParsedPathSegment[] = []
+    for (const folder of segments.slice(0, -1)) {
+      if (folder.value.startsWith('_') || NEXT_INTERCEPT_RE.test(folder.value))
+        return
+      if (folder.value.startsWith('@')) {
+        view = folder.value.slice(1)
+        continue
+      }
+      result.push(parseNextFolder(folder, context))
+    }
+
+    // Layouts wrap their folder; pages and route handlers are its index
+    if (file !== 'layout')
+      result.push([{ type: 'static', value: '' }])
+
+    const modes = file === 'route' ? ['server'] : undefined
+    return view ? { segments: result, view, viewOnly: true, modes } : { segments: result, modes }
+  },
+}
+
+function parseNextFolder(folder: RawSegment, context: DialectContext): ParsedPathSegment {
+  const parsed = context.parseSegment(folder.value, folder.offset)
+  // `[...slug]` needs at least one segment in Next.js; `[[...slug]]` stays a catchall
+  if (NEXT_CATCHALL_RE.test(folder.value))
+    parsed[0] = { type: 'repeatable', value: parsed[0].value }
+  return toPathlessGroup(parsed)
+}
+
+/**
+ * Route group folders become pathless layouts, like Remix `_auth`, so a
+ * layout inside the group wraps the group's routes.
+ */
+function toPathlessGroup(segment: ParsedPathSegment): ParsedPathSegment {
+  return segment.every(token => token.type === 'group') ? [...segment, { type: 'static', value: '' }] : segment
+}
+
+// --- SvelteKit ---------------------------------------------------------------
+
+const SVELTEKIT_FILE_RE = /^\+(page|layout|server)(?:@.*)?$/
+
+/**
+ * `src/routes/blog/[slug=slug]/+page.svelte` → `/blog/:slug`. `+page` and
+ * `+layout` components define routes, and `+server` endpoints are added with
+ * the `server` mode. Layout resets (`+page@.svelte`) are ignored.
+ */
+const sveltekit: Dialect = {
+  namedViews: false,
+  paramMatchers: true,
+  resolve(segments, context) {
+    const kind = segments.at(-1)!.value.match(SVELTEKIT_FILE_RE)?.[1]
+    // `+page.ts` / `+layout.server.ts` are load functions, not components
+    if (!kind || (kind === 'server') === (context.ext === '.svelte'))
+      return
+
+    const result = segments.slice(0, -1).map(folder => toPathlessGroup(context.parseSegment(folder.value, folder.offset)))
+    if (kind !== 'layout')
+      result.push([{ type: 'static', value: '' }])
+
+    return { segments: result, modes: kind === 'server' ? ['server'] : undefined }
+  },
+}
+
+// --- Remix / React Router flat routes ----------------------------------------
+
+const REMIX_OPTIONAL_RE = /^\(\$(.+)\)$/
+const REMIX_ESCAPE_RE = /\[([^\]]*)\]/g
+
+/**
+ * `app/routes/concerts.$city.tsx` → `/concerts/:city`. Route files live
+ * directly in the routes folder, or as `route.tsx` inside a folder named with
+ * the same convention; other files are colocated modules and are skipped.
+ */
+const remix: Dialect = {
+  namedViews: false,
+  resolve(segments) {
+    if (segments.length > 2 || (segments.length === 2 && segments[1].value !== 'route'))
+      return
+
+    return { segments: splitFlatSegment(segments[0]).map(part => parseFlatSegment(part, '_index')) }
+  },
+}
+
+/** Split on `.`, except inside `[...]` escapes. */
+function splitFlatSegment(segment: RawSegment): RawSegment[] {
+  const parts: RawSegment[] = []
+  let start = 0
+  let escaped = false
+  for (let i = 0; i <= segment.value.length; i++) {
+    const c = segment.value[i]
+    if (c === '[' || c === ']') {
+      escaped = c === '['
+    }
+    else if ((c === '.' && !escaped) || c === undefined) {
+      parts.push({ value: segment.value.slice(start, i), offset: segment.offset + start })
+      start = i + 1
+    }
+  }
+  return parts
+}
+
+/** Parse a Remix / TanStack segment; `index` is the name of index routes. */
+function parseFlatSegment(part: RawSegment, index: string): ParsedPathSegment {
+  let value = part.value
+  if (value === index)
+    return [{ type: 'static', value: '' }]
+
+  // `concerts_` keeps the `/concerts` path but does not nest inside `concerts.tsx`
+  const unnested = value.length > 1 && value.endsWith('_')
+  if (unnested)
+    value = value.slice(0, -1)
+
+  let token: ParsedPathSegmentToken
+  if (value === '$')
+    token = { type: 'catchall', value: '_splat' }
+  else if (REMIX_OPTIONAL_RE.test(value))
+    token = { type: 'optional', value: value.match(REMIX_OPTIONAL_RE)![1] }
+  else if (value[0] === '$')
+    token = { type: 'dynamic', value: value.slice(1) }
+  // Pathless layouts add a nesting level without a path segment
+  else if (value[0] === '_')
+    return [{ type: 'group', value: value.slice(1) }, { type: 'static', value: '' }]
+  else
+    token = { type: 'static', value: value.replace(REMIX_ESCAPE_RE, '$1') }
+
+  return [unnested ? { ...token, unnested } : token]
+}
+
+// --- TanStack Router ---------------------------------------------------------
+
+const TANSTACK_GROUP_RE = /^\((.+)\)$/
+
+/**
+ * `src/routes/posts/$postId.tsx` or `src/routes/posts.$postId.tsx` →
+ * `/posts/:postId`. Folders and dots both separate segments, `route.tsx` is
+ * its folder's layout, `__root.tsx` the root route wrapping all others and `-`
+ * prefixed files and folders are skipped. `.lazy` files get the `lazy` mode.
+ */
+const tanstack: Dialect = {
+  namedViews: false,
+  resolve(segments) {
+    const parts = segments.flatMap(splitFlatSegment)
+    if (parts.some(part => part.value.startsWith('-')))
+      return
+
+    let modes: string[] | undefined
+    if (parts.length > 1 && parts.at(-1)!.value === 'lazy') {
+      parts.pop()
+      modes = ['lazy']
+    }
+    if (parts.at(-1)!.value === 'route' || parts.at(-1)!.value === '__root')
+      parts.pop()
+
+    return {
+      segments: parts.map((part) => {
+        const group = part.value.match(TANSTACK_GROUP_RE)
+        return group ? [{ type: 'group', value: group[1] }] : parseFlatSegment(part, 'index')
+      }),
+      modes,
+    }
+  },
+}
+
+// --- Registry ----------------------------------------------------------------
+
+export const dialects: Record<ParseDialect, Dialect> = { nuxt, nuxt2, next, sveltekit, remix, tanstack }
@@ -0,0 +1,104 @@
+import type { VueRoute, VueRouterEmitOptions } from './converters'
+import type { RouteTree } from './tree'
+import { flattenVueRoutes, toVueRouter4 } from './converters'
+
+export interface DiffTreesOptions {
+  /** Route name generator, as passed to `toVueRouter4`. */
+  getRouteName?: VueRouterEmitOptions['getRouteName']
+}
+
+/** A route as compared by `diffTrees`. */
+export interface DiffRoute {
+  file: string
+  /** Full path, including the paths of parent routes. */
+  path: string
+  name?: string
+  /** File of the parent route, for nested routes. */
+  parent?: string
+  /** Named view files keyed by view name. */
+  components?: Record<string, string>
+  modes?: string[]
+}
+
+export type RouteChangeKind = 'path' | 'name' | 'views' | 'modes' | 'parent'
+
+export interface RouteChange {
+  type: 'added' | 'removed' | 'changed'
+  /** File the route is generated from. */
+  file: string
+  /** The route before the change. Unset for added routes. */
+  before?: DiffRoute
+  /** The route after the change. Unset for removed routes. */
+  after?: DiffRoute
+  /** What changed. Only set for changed routes. */
+  changes?: RouteChangeKind[]
+}
+
+/**
+ * Compare two versions of a route tree at the route level, e.g. to hot-patch
+ * only the routes affected by `addFile` / `removeFile`.
+ *
+ * Routes are matched by the file they are generated from. Either side can be
+ * a tree or routes previously emitted by `toVueRouter4`, so the routes from
+ * before a mutation can be kept instead of a copy of the tree.
+ *
+ * @example
+ * const before = toVueRouter4(tree)
+ * addFile(tree, 'pages/users.vue', opts)
+ * diffTrees(before, tree)
+ * // [{ type: 'added', file: 'pages/users.vue', ... },
+ * //  { type: 'changed', file: 'pages/users/[id].vue', changes: ['parent'], ... }]
+ */
+export function diffTrees(before: RouteTree | VueRoute[], after: RouteTree | VueRoute[], options: DiffTreesOptions = {}): RouteChange[] {
+  const beforeRoutes = flattenRoutes(before, options)
+  const afterRoutes = flattenRoutes(after, options)
+
+  const changes: RouteChange[] = []
+  for (const [file, route] of afterRoutes) {
+    const previous = beforeRoutes.get(file)
+    if (!previous) {
+      changes.push({ type: 'added', file, after: route })
+      continue
+    }
+    const kinds = compareRoutes(previous, route)
+    if (kinds.length > 0)
+      changes.push({ type: 'changed', file, before: previous, after: route, changes: kinds })
+  }
+  for (const [file, route] of beforeRoutes) {
+    if (!afterRoutes.has(file))
+      changes.push({ type: 'removed', file, before: route })
+  }
+  return changes
+}
+
+function flattenRoutes(input: RouteTree | VueRoute[], options: DiffTreesOptions): Map<string, DiffRoute> {
+  const routes = new Map<string, DiffRoute>()
+  for (const { route, path, parents } of flattenVueRoutes(Array.isArray(input) ? input : toVueRouter4(input, { getRouteName: options.getRouteName }))) {
+    const flat: DiffRoute = { file: route.file!, path }
+    if (route.name !== undefined)
+      flat.name = route.name
+    if (parents.length)
+      flat.parent = parents.at(-1)!.route.file
+    if (route.components)
+      flat.components = route.components
+    if (route.modes)
+      flat.modes = route.modes
+    routes.set(flat.file, flat)
+  }
+  return routes
+}
+
+function compareRoutes(before: DiffRoute, after: DiffRoute): RouteChangeKind[] {
+  const kinds: RouteChangeKind[] = []
+  if (before.path !== after.path)
+    kinds.push('path')
+  if (before.name !== after.name)
+    kinds.push('name')
+  if (JSON.stringify(before.components) !== JSON.stringify(after.components))
+    kinds.push('views')
+  if (before.modes?.slice().sort().join(',') !== after.modes?.slice().sort().join(','))
+    kinds.push('modes')
+  if (before.parent !== after.parent)
+    kinds.push('parent')
+  return kinds
+}
@@ -1,11 +1,27 @@
-export type { InferAttrs, RegExpRoute, Rou3Route, ToVueRouterSegmentOptions, VueRoute, VueRouterEmitOptions, VueRouterToRou3Issue, VueRouterToRou3Options, VueRouterToRou3Result } from './converters'
+export type { UnreachableRoute } from './analyze'
+export { analyzeTree } from './analyze'
+export type { InferAttrs, ParamNameIssue, RegExpRoute, Rou3Route, ToRegExpResult, ToRou3Issue, ToRou3Options, ToRou3Result, ToVueRouterSegmentOptions, VueRoute, VueRouterEmitOptions, VueRouterToRou3Issue, VueRouterToRou3Options, VueRouterToRou3Result } from './converters'
 export { toRegExp, toRou3, toVueRouter4, toVueRouterPath, toVueRouterSegment, vueRouterToRou3 } from './converters'
 
-export type { CompiledParsePath, ParsedPath, ParsedPathSegment, ParsedPathSegmentToken, ParsePathOptions, SegmentType } from './parse'
-export { compileParsePath, parsePath, parseSegment } from './parse'
+export type { MigrateFilePathOptions } from './dialects'
+export { migrateFilePath } from './dialects'
 
-export type { BuildTreeOptions, InputFile, RouteNode, RouteNodeFile, RouteTree } from './tree'
-export { addFile, buildTree, isPageNode, removeFile, walkTree } from './tree'
+export type { DiffRoute, DiffTreesOptions, RouteChange, RouteChangeKind } from './diff'
+export { diffTrees } from './diff'
+
+export type { CreateMatcherOptions, MatchedRoute, Matcher, MatcherResult, MatchFileResult } from './match'
+export { createMatcher, matchFile } from './match'
+
+export type { CompiledParsePath, ParseDialect, ParsedPath, ParsedPathSegment, ParsedPathSegmentToken, ParsePathOptions, ParsePathResult, ParseSegmentOptions, SegmentType, SkippedFile, UnroutingDiagnostic, UnroutingDiagnosticCode, UnroutingParseErrorCode, UnroutingParseErrorDetails } from './parse'
+export { compileParsePath, parsePath, parseSegment, UnroutingParseError } from './parse'
+
+export type { FileRouteInfo, ResolveFileRouteOptions } from './resolve'
+export { resolveFileRoute } from './resolve'
+
+export { deserializeTree, serializeTree } from './serialize'
+
+export type { BuildTreeOptions, InputFile, LayerReportEntry, LayerReportFile, RouteNode, RouteNodeFile, RouteTree, TreeChangeEvent, TreeChangeListener } from './tree'
+export { addFile, batch, buildTree, getLayerReport, isPageNode, listFiles, moveDirectory, onTreeChange, removeDirectory, removeFile, renameFile, walkTree } from './tree'
 
 export type { Rou3PatternToURLPatternOptions, Rou3PatternToURLPatternResult, Rou3ToURLPatternIssue } from './url-pattern'
 export { rou3PatternToURLPattern } from './url-pattern'
@@ -0,0 +1,200 @@
+import type { FlatVueRoute, VueRoute, VueRouterEmitOptions } from './converters'
+import type { ParsedPathSegmentToken } from './parse'
+import type { RouteNode, RouteNodeFile, RouteTree } from './tree'
+import { decode, decodePath, encodePath, parsePath, withLeadingSlash } from 'ufo'
+import { comparePathScores, computePathScore, flattenVueRoutes, getVueRoutes, toRegExpSegment } from './converters'
+
+export interface MatchFileResult {
+  /** The tree node the URL resolved to. */
+  node: RouteNode
+  /** File that serves the URL. */
+  file: RouteNodeFile
+  /** Named view files keyed by view name. Only present when named views exist. */
+  components?: Record<string, string>
+  /** Modes of the file and its mode variants. */
+  modes?: string[]
+  /** Param values by name; repeatable and catch-all params are split into arrays. */
+  params: Record<string, string | string[]>
+}
+
+export interface CreateMatcherOptions {
+  /** Route name generator, as passed to `toVueRouter4`. */
+  getRouteName?: VueRouterEmitOptions['getRouteName']
+}
+
+export interface Matcher {
+  /** Resolve a URL to a route. Query strings and hashes are ignored. */
+  match: (url: string) => MatcherResult | undefined
+}
+
+export interface MatcherResult {
+  /** The deepest matched route. */
+  route: MatchedRoute
+  /** Matched routes from the top level down to `route`, one per nested view. */
+  matched: MatchedRoute[]
+  /** Param values by name; repeatable and catch-all params are split into arrays. */
+  params: Record<string, string | string[]>
+}
+
+/** A route as emitted by `toVueRouter4`, with its full path. */
+export interface MatchedRoute {
+  file: string
+  /** Full path, including the paths of parent routes. */
+  path: string
+  name?: string
+  /** Named view files keyed by view name. Only present when named views exist. */
+  components?: Record<string, string>
+  modes?: string[]
+  meta?: Record<string, unknown>
+}
+
+interface MatcherRecord {
+  pattern: RegExp
+  /** Param tokens, in the order of the pattern's capture groups. */
+  tokens: ParsedPathSegmentToken[]
+  keys: string[]
+  score: number[][]
+  matched: MatchedRoute[]
+}
+
+/** Compiled records by the cached `toVueRouter4` routes they were compiled from. */
+const recordsCache = new WeakMap<VueRoute[], MatcherRecord[]>()
+
+/**
+ * Find the file that serves a URL, without building a router. Query strings
+ * and hashes are ignored.
+ *
+ * Routes are ranked like in `createMatcher`: static segments and static text
+ * within a segment before params, plain params before optional, repeatable
+ * and catch-all ones. Returns `undefined` when no route matches.
+ *
+ * @example
+ * matchFile(tree, '/users/42/settings')
+ * // { file: { path: 'pages/users/[id]/settings.vue', ... }, params: { id: '42' }, ... }
+ */
+export function matchFile(tree: RouteTree, url: string): MatchFileResult | undefined {
+  const result = matchRecords(getRecords(tree), url)
+  if (!result)
+    return undefined
+
+  const { route, params } = result
+  const node = tree['~fileIndex'].get(route.file)!
+  const match: MatchFileResult = { node, file: node.files.find(f => f.path === route.file)!, params }
+  if (route.components)
+    match.components = route.components
+  if (route.modes)
+    match.modes = route.modes
+  return match
+}
+
+/**
+ * Compile a tree into a URL matcher, e.g. for edge workers or tests that
+ * can't pull in vue-router or rou3. Routes are ranked like vue-router ranks
+ * the `toVueRouter4` output, down to static text within a segment
+ * (`p-[id]` before `[name]`); on equal ranks, child routes win over their
+ * parents.
+ *
+ * The matcher follows `addFile` / `removeFile` and friends: it recompiles on
+ * the first match after the tree changed.
+ *
+ * @example
+ * const matcher = createMatcher(tree)
+ * matcher.match('/users/42/posts/a/b')
+ * // { route: { file: 'pages/users/[id]/posts/[...slug].vue', ... }, matched: [...], params: { id: '42', slug: ['a', 'b'] } }
+ */
+export function createMatcher(tree: RouteTree, options: CreateMatcherOptions = {}): Matcher {
+  return {
+    match: url => matchRecords(getRecords(tree, options), url),
+  }
+}
+
+function getRecords(tree: RouteTree, options: CreateMatcherOptions = {}): MatcherRecord[] {
+  // The routes are cached on the tree until it changes
+  const routes = getVueRoutes(tree, { getRouteName: options.getRouteName })
+  let records = recordsCache.get(routes)
+  if (!records) {
+    records = compileRecords(tree, routes)
+    recordsCache.set(routes, records)
+  }
+  return records
+}
+
+function matchRecords(records: MatcherRecord[], url: string): MatcherResult | undefined {
+  // Match the encoded path like vue-router does, so `%2F` stays within its segment
+  const path = encodePath(decodePath(withLeadingSlash(parsePath(url).pathname)))
+  for (const record of records) {
+    const match = path.match(record.pattern)
+    if (match)
+      return { route: record.matched.at(-1)!, matched: record.matched, params: toParams(record, match) }
+  }
+  return undefined
+}
+
+function compileRecords(tree: RouteTree, routes: VueRoute[]): MatcherRecord[] {
+  const records: MatcherRecord[] = []
+  const matchedRoutes = new Map<FlatVueRoute, MatchedRoute>()
+  // vue-router inserts children before ancestors with the same score, so
+  // records are ranked in post-order: each one after its descendants
+  const pending: MatcherRecord[] = []
+  for (const entry of flattenVueRoutes(routes)) {
+    while (pending.length > entry.parents.length)
+      records.push(pending.pop()!)
+    const route = toMatchedRoute(entry)
+    matchedRoutes.set(entry, route)
+    pending.push(compileRecord(tree, [...entry.parents.map(parent => matchedRoutes.get(parent)!), route]))
+  }
+  records.push(...pending.reverse())
+  return records.sort((a, b) => comparePathScores(a.score, b.score))
+}
+
+function toMatchedRoute({ route, path }: FlatVueRoute): MatchedRoute {
+  const matchedRoute: MatchedRoute = { file: route.file!, path }
+  if (route.name !== undefined)
+    matchedRoute.name = route.name
+  if (route.components)
+    matchedRoute.components = { ...route.components }
+  if (route.modes)
+    matchedRoute.modes = [...route.modes]
+  if (route.meta)
+    matchedRoute.meta = { ...route.meta }
+  return matchedRoute
+}
+
+function compileRecord(tree: RouteTree, matched: MatchedRoute[]): MatcherRecord {
+  const route = matched.at(-1)!
+  const { originalSegments } = tree['~fileIndex'].get(route.file)!.files.find(f => f.path === route.file)!
+  // Static text is matched encoded, like the `toVueRouter4` paths
+  const segments = originalSegments.map(segment => segment.map(token => token.type === 'static' ? { ...token, value: encodePath(token.value) } : token))
+
+  // Positional group names avoid clashes between sanitized param names
+  const keys: string[] = []
+  let source = '^'
+  for (const segment of segments) {
+    const { re, optional } = toRegExpSegment(segment, keys, tree['~matchers'], () => `_${keys.length}`)
+    if (re)
+      source += optional ? `(?:\\/${re})?` : `\\/${re}`
+  }
+
+  return {
+    pattern: new RegExp(`${source}\\/?$`),
+    tokens: segments.flat().filter(token => token.type !== 'static' && token.type !== 'group'),
+    keys,
+    score: computePathScore(route.path),
+    matched,
+  }
+}
+
+function toParams(record: MatcherRecord, match: RegExpMatchArray): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {}
+  record.tokens.forEach((token, i) => {
+    const value = match.groups![record.keys[i]]
+    if (token.type === 'dynamic' || token.type === 'optional') {
+      if (value)
+        params[token.value] = decode(value)
+    }
+    else {
+      params[token.value] = value ? value.split('/').map(part => decode(part)) : []
+    }
+  })
+  return params
+}
@@ -1,5 +1,19 @@
+import type { Dialect } from './dialects'
 import escapeStringRegexp from 'escape-string-regexp'
 import { withoutLeadingSlash, withoutTrailingSlash, withTrailingSlash } from 'ufo'
+import { dialects, parseNuxt2Segment } from './dialects'
+
+/**
+ * File naming convention understood by `parsePath`.
+ *
+ * - `'nuxt'` — Nuxt / unplugin-vue-router (`users/[id].vue`, `index.vue`, `@view`)
+ * - `'nuxt2'` — Nuxt 2 `users/_id.vue` / `_.vue`, alongside the `'nuxt'` syntax
+ * - `'next'` — Next.js App Router (`users/[id]/page.tsx`, `layout.tsx`, `route.ts`)
+ * - `'sveltekit'` — SvelteKit (`users/[id=int]/+page.svelte`, `+layout.svelte`, `+server.ts`)
+ * - `'remix'` — Remix / React Router flat routes (`users.$id.tsx`, `_index.tsx`, `users.$id/route.tsx`)
+ * - `'tanstack'` — TanStack Router (`users/$id.tsx`, `users/route.tsx`, `__root.tsx`, `users.lazy.tsx`)
+ */
+export type ParseDialect = 'nuxt' | 'nuxt2' | 'next' | 'sveltekit' | 'remix' | 'tanstack'
 
 export interface ParsePathOptions {
   /**
@@ -16,6 +30,34 @@ export interface ParsePathOptions {
   modes?: string[]
   /** Root paths to strip from file paths. Longest match wins. */
   roots?: string[]
+  /**
+   * How to handle malformed file paths.
+   *
+   * - `'throw'` — throw an `UnroutingParseError` on the first bad file.
+   * - `'collect'` — skip bad files and return structured diagnostics
+   *   alongside the result (see `parsePath` and `RouteTree.diagnostics`).
+   *
+   * @default 'throw'
+   */
+  diagnostics?: 'throw' | 'collect'
+  /**
+   * File naming convention of the input paths. Every dialect produces the same
+   * tokens, so trees and converters work unchanged. Files that don't define a
+   * route in the dialect (e.g. Next.js `loading.tsx`) are skipped.
+   *
+   * @default 'nuxt'
+   */
+  dialect?: ParseDialect
+  /**
+   * Files to leave out, such as colocated components, tests and helpers.
+   *
+   * Strings are gitignore-style globs matched against the path after root
+   * stripping: patterns without a `/` match a file or folder name at any depth
+   * (`*.spec.ts`, `-*`), a trailing `/` only matches folders (`_components/`)
+   * and other patterns are anchored to the root (`admin/**`). Functions
+   * receive the original file path and return `true` to ignore it.
+   */
+  ignore?: Array<string | ((filePath: string) => boolean)>
 }
 
 export type SegmentType = 'static' | 'dynamic' | 'optional' | 'catchall' | 'group' | 'repeatable' | 'optional-repeatable'
@@ -23,10 +65,63 @@ export type SegmentType = 'static' | 'dynamic' | 'optional' | 'catchall' | 'grou
 export interface ParsedPathSegmentToken {
   type: SegmentType
   value: string
+  /** Param matcher name, e.g. `int` for `[id=int]`. See `BuildTreeOptions.matchers`. */
+  matcher?: string
+  /** Inline regexp constraint, e.g. `\d+` for `[id(\d+)]`. */
+  regexp?: string
+  /**
+   * The segment keeps its path but does not nest inside the parent's layout
+   * (Remix's trailing `_`). Set on the last token of the segment.
+   */
+  unnested?: boolean
 }
 
 export type ParsedPathSegment = ParsedPathSegmentToken[]
 
+export type UnroutingParseErrorCode = 'EMPTY_PARAM' | 'EMPTY_GROUP' | 'UNFINISHED_PARAM' | 'UNFINISHED_GROUP' | 'INVALID_CONSTRAINT' | 'DUPLICATE_FILE' | 'DUPLICATE_PARAM'
+
+export interface UnroutingParseErrorDetails {
+  code: UnroutingParseErrorCode
+  /** File path the error was raised for, if known. */
+  file?: string
+  /** The raw segment (or, for file-level errors, the file path) that failed. */
+  segment: string
+  /** Offset of the first offending character. */
+  start: number
+  /** Offset just past the last offending character. */
+  end: number
+  /** Suggested fix, suitable for showing next to the error. */
+  hint?: string
+}
+
+/**
+ * Error thrown when a file path cannot be turned into a route.
+ *
+ * `start` and `end` are character offsets into `file` when the error comes
+ * from `parsePath` / `buildTree`, so editors can underline the exact bracket
+ * that is wrong. When `parseSegment` is called directly they index into
+ * `segment` instead.
+ */
+export class UnroutingParseError extends Error implements UnroutingParseErrorDetails {
+  code: UnroutingParseErrorCode
+  file?: string
+  segment: string
+  start: number
+  end: number
+  hint?: string
+
+  constructor(message: string, details: UnroutingParseErrorDetails) {
+    super(message)
+    this.name = 'UnroutingParseError'
+    this.code = details.code
+    this.file = details.file
+    this.segment = details.segment
+    this.start = details.start
+    this.end = details.end
+    this.hint = details.hint
+  }
+}
+
 export interface ParsedPath {
   /** Original file path before processing. */
   file: string
@@ -36,28 +131,79 @@ export interface ParsedPath {
     modes?: string[]
     /** Named view from `@name` suffix. */
     name?: string
+    /** Whether the named view only renders next to a default view, like Next.js `@slot` pages. */
+    viewOnly?: boolean
   }
 }
 
+export type UnroutingDiagnosticCode = UnroutingParseErrorCode | 'INVALID_PARAM_CHAR' | 'UNKNOWN_MATCHER'
+
+/** A problem found while parsing a file, reported in `diagnostics: 'collect'` mode. */
+export interface UnroutingDiagnostic {
+  severity: 'error' | 'warning'
+  code: UnroutingDiagnosticCode
+  /** Original file path the diagnostic belongs to. */
+  file: string
+  /** Character offsets into `file`. */
+  range: { start: number, end: number }
+  message: string
+  hint?: string
+}
+
+/** A file that was left out of the result, and why. */
+export interface SkippedFile {
+  file: string
+  /**
+   * - `'ignored'` — matched an `ignore` pattern.
+   * - `'not-a-route'` — the dialect does not treat the file as a route
+   *   (e.g. Next.js `loading.tsx`).
+   */
+  reason: 'ignored' | 'not-a-route'
+  /** The `ignore` glob that matched. Unset for predicates. */
+  pattern?: string
+}
+
+export interface ParsePathResult {
+  /** Parsed paths for every file that could be parsed. */
+  paths: ParsedPath[]
+  /** Errors for skipped files and warnings for parsed ones. */
+  diagnostics: UnroutingDiagnostic[]
+  /** Files left out because they matched an `ignore` pattern or aren't routes in the dialect. */
+  skipped: SkippedFile[]
+}
+
 // --- parsePath ---------------------------------------------------------------
 
 const VIEW_MATCH_RE = /(?<=[\w\]])@([\w-]+)(?:\.|$)/
 const VIEW_STRIP_RE = /(?<=[\w\]])@[\w-]+/
 const DEFAULT_EXT_RE = /\.\w+$/
 
-export function parsePath(filePaths: string[], options: ParsePathOptions = {}): ParsedPath[] {
-  const EXT_RE = options.extensions
-    ? new RegExp(`\\.(${options.extensions.map(ext => ext.replace(/^\./, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})$`)
-    : DEFAULT_EXT_RE
-
-  const sortedRoots = [...options.roots || []].sort((a, b) => b.length - a.length)
-  const PREFIX_RE = sortedRoots.length > 0
-    ? new RegExp(`^(?:${sortedRoots.map(root => escapeStringRegexp(withTrailingSlash(root))).join('|')})`)
-    : undefined
+/**
+ * Parse file paths into route segments.
+ *
+ * Files that don't define a route in the chosen `dialect` are left out, so the
+ * result can be shorter than the input.
+ *
+ * With `diagnostics: 'collect'`, malformed files are skipped instead of
+ * throwing and the result is returned as `{ paths, diagnostics, skipped }`.
+ * Options only known as `ParsePathOptions` may be either, so the result is
+ * typed as the union.
+ */
+export function parsePath(filePaths: string[], options: ParsePathOptions & { diagnostics: 'collect' }): ParsePathResult
+export function parsePath(filePaths: string[], options?: ParsePathOptions & { diagnostics?: 'throw' }): ParsedPath[]
+export function parsePath(filePaths: string[], options?: ParsePathOptions): ParsedPath[] | ParsePathResult
+export function parsePath(filePaths: string[], options: ParsePathOptions = {}): ParsedPath[] | ParsePathResult {
+  return runParse(filePaths, createParseContext(options))
+}
 
-  const supportedModes = options.modes || []
+function runParse(filePaths: string[], context: ParseContext): ParsedPath[] | ParsePathResult {
+  if (!context.collect)
+    return parsePathInner(filePaths, context)
 
-  return parsePathInner(filePaths, EXT_RE, PREFIX_RE, supportedModes, options.warn)
+  const diagnostics: UnroutingDiagnostic[] = []
+  const skipped: SkippedFile[] = []
+  const paths = parsePathInner(filePaths, context, diagnostic => diagnostics.push(diagnostic), file => skipped.push(file))
+  return { paths, diagnostics, skipped }
 }
 
 /**
@@ -67,19 +213,57 @@ export function parsePath(filePaths: string[], options: ParsePathOptions = {}):
  * but reuses pre-built regexes and mode lists, avoiding re-compilation on each
  * invocation.
  *
+ * In `diagnostics: 'collect'` mode the callable skips malformed files and
+ * returns `{ paths, diagnostics, skipped }`, like `parsePath`; pass it to
+ * `addFile` to have them recorded on the tree instead.
+ *
  * @example
  * const parse = compileParsePath({ roots: ['pages/'], modes: ['client', 'server'] })
  * const result = parse(['pages/index.vue'])
  */
-export interface CompiledParsePath {
-  (filePaths: string[]): ParsedPath[]
+export interface CompiledParsePath<Result = ParsedPath[] | ParsePathResult> {
+  (filePaths: string[]): Result
   /**
    * @internal
    */
   '~compiled': true
+  /**
+   * Pre-built parsing state, reused by `addFile`.
+   * @internal
+   */
+  '~context': ParseContext
 }
 
+export function compileParsePath(options: ParsePathOptions & { diagnostics: 'collect' }): CompiledParsePath<ParsePathResult>
+export function compileParsePath(options?: ParsePathOptions & { diagnostics?: 'throw' }): CompiledParsePath<ParsedPath[]>
+export function compileParsePath(options?: ParsePathOptions): CompiledParsePath
 export function compileParsePath(options: ParsePathOptions = {}): CompiledParsePath {
+  const context = createParseContext(options)
+  const fn = (filePaths: string[]) => runParse(filePaths, context)
+  ;(fn as CompiledParsePath)['~compiled'] = true
+  ;(fn as CompiledParsePath)['~context'] = context
+  return fn as CompiledParsePath
+}
+
+/** @internal */
+export interface ParseContext {
+  EXT_RE: RegExp
+  PREFIX_RE: RegExp | undefined
+  supportedModes: string[]
+  warn?: (message: string) => void
+  collect: boolean
+  dialect: Dialect
+  ignore: IgnoreRule[]
+}
+
+/** @internal */
+export type DiagnosticReporter = (diagnostic: UnroutingDiagnostic) => void
+
+/** @internal */
+export type SkipReporter = (skipped: SkippedFile) => void
+
+/** @internal */
+export function createParseContext(options: ParsePathOptions): ParseContext {
   const EXT_RE = options.extensions
     ? new RegExp(`\\.(${options.extensions.map(ext => ext.replace(/^\./, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})$`)
     : DEFAULT_EXT_RE
@@ -89,78 +273,219 @@ export function compileParsePath(options: ParsePathOptions = {}): CompiledParseP
     ? new RegExp(`^(?:${sortedRoots.map(root => escapeStringRegexp(withTrailingSlash(root))).join('|')})`)
     : undefined
 
-  const supportedModes = options.modes || []
-  const warn = options.warn
+  return {
+    EXT_RE,
+    PREFIX_RE,
+    supportedModes: options.modes || [],
+    warn: options.warn,
+    collect: options.diagnostics === 'collect',
+    dialect: dialects[options.dialect || 'nuxt'],
+    ignore: (options.ignore || []).map(compileIgnoreRule),
+  }
+}
 
-  const fn = (filePaths: string[]) => parsePathInner(filePaths, EXT_RE, PREFIX_RE, supportedModes, warn)
-  ;(fn as CompiledParsePath)['~compiled'] = true
-  return fn as CompiledParsePath
+/** Convert a thrown parse error into an error diagnostic. @internal */
+export function errorToDiagnostic(error: UnroutingParseError): UnroutingDiagnostic {
+  return {
+    severity: 'error',
+    code: error.code,
+    file: error.file!,
+    range: { start: error.start, end: error.end },
+    message: error.message,
+    hint: error.hint,
+  }
 }
 
-function parsePathInner(
-  filePaths: string[],
-  EXT_RE: RegExp,
-  PREFIX_RE: RegExp | undefined,
-  supportedModes: string[],
-  warn?: (message: string) => void,
-): ParsedPath[] {
+/**
+ * Parse file paths with a prepared context. In collect mode, files that fail to
+ * parse are skipped and reported through `report`. Ignored files and files
+ * that aren't routes are reported through `skip`.
+ * @internal
+ */
+export function parsePathInner(filePaths: string[], context: ParseContext, report?: DiagnosticReporter, skip?: SkipReporter): ParsedPath[] {
   const results: ParsedPath[] = []
 
-  for (let filePath of filePaths) {
-    const originalFilePath = filePath
-    if (PREFIX_RE)
-      filePath = filePath.replace(PREFIX_RE, '')
-    filePath = filePath.replace(EXT_RE, '')
-
-    // Named views: @name suffix
-    let namedView: string | undefined
-    const viewMatch = filePath.match(VIEW_MATCH_RE)
-    if (viewMatch) {
-      namedView = viewMatch[1]
-      filePath = filePath.replace(VIEW_STRIP_RE, '')
+  for (const filePath of filePaths) {
+    try {
+      const parsed = parseFilePath(filePath, context, report, skip)
+      if (parsed)
+        results.push(parsed)
+    }
+    catch (error) {
+      if (!context.collect || !(error instanceof UnroutingParseError))
+        throw error
+      report?.(errorToDiagnostic(error))
     }
+  }
 
-    // Modes: extract from right to left (e.g. "file.client.vapor" → ['client', 'vapor'])
-    const modes: string[] = []
-    let scanning = true
-    while (scanning) {
-      scanning = false
-      for (const mode of supportedModes) {
-        if (filePath.endsWith(`.${mode}`)) {
-          modes.unshift(mode)
-          filePath = filePath.slice(0, -(mode.length + 1))
-          scanning = true
-          break
-        }
+  return results
+}
+
+function parseFilePath(filePath: string, context: ParseContext, report?: DiagnosticReporter, skip?: SkipReporter): ParsedPath | undefined {
+  const { EXT_RE, PREFIX_RE, supportedModes, warn, dialect } = context
+  const originalFilePath = filePath
+  if (PREFIX_RE)
+    filePath = filePath.replace(PREFIX_RE, '')
+  const prefixLength = originalFilePath.length - filePath.length
+
+  const relativePath = withoutLeadingSlash(filePath)
+  const ignored = context.ignore.find(rule => rule.test(relativePath, originalFilePath))
+  if (ignored) {
+    skip?.({ file: originalFilePath, reason: 'ignored', pattern: ignored.pattern })
+    return
+  }
+
+  const ext = filePath.match(EXT_RE)?.[0] ?? ''
+  filePath = filePath.slice(0, filePath.length - ext.length)
+
+  // Named views: @name suffix
+  let namedView: string | undefined
+  let viewIndex = -1
+  let viewLength = 0
+  const viewMatch = dialect.namedViews ? filePath.match(VIEW_MATCH_RE) : null
+  if (viewMatch) {
+    namedView = viewMatch[1]
+    viewIndex = viewMatch.index!
+    viewLength = namedView.length + 1
+    filePath = filePath.replace(VIEW_STRIP_RE, '')
+  }
+
+  // Modes: extract from right to left (e.g. "file.client.vapor" → ['client', 'vapor'])
+  const modes: string[] = []
+  let scanning = true
+  while (scanning) {
+    scanning = false
+    for (const mode of supportedModes) {
+      if (filePath.endsWith(`.${mode}`)) {
+        modes.unshift(mode)
+        filePath = filePath.slice(0, -(mode.length + 1))
+        scanning = true
+        break
       }
     }
+  }
 
-    // withoutTrailingSlash('') returns '/', withoutLeadingSlash('/') returns '/'
-    const normalized = withoutLeadingSlash(withoutTrailingSlash(filePath))
-    const segments = normalized === '/' ? [''] : normalized.split('/')
+  // withoutTrailingSlash('') returns '/', withoutLeadingSlash('/') returns '/'
+  const normalized = withoutLeadingSlash(withoutTrailingSlash(filePath))
+  const segments = normalized === '/' ? [''] : normalized.split('/')
 
-    const hasModes = modes.length > 0
-    const hasMeta = hasModes || !!namedView
+  // Map an offset in `normalized` back to an offset in the original file path
+  const leadingSlash = filePath[0] === '/' ? 1 : 0
+  const locate = (index: number) => {
+    const stripped = index + leadingSlash
+    return prefixLength + stripped + (viewIndex !== -1 && stripped >= viewIndex ? viewLength : 0)
+  }
 
-    results.push({
-      file: originalFilePath,
-      segments: segments.map(s => parseSegment(s, originalFilePath, warn)),
-      meta: hasMeta
-        ? {
-            ...(hasModes ? { modes } : undefined),
-            ...(namedView ? { name: namedView } : undefined),
-          }
-        : undefined,
-    })
+  let offset = 0
+  const rawSegments = segments.map((value) => {
+    const segment = { value, offset }
+    offset += value.length + 1
+    return segment
+  })
+
+  const resolved = dialect.resolve(rawSegments, {
+    ext,
+    parseSegment: (segment, segmentOffset) => parseSegmentAt(segment, originalFilePath, warn, index => locate(segmentOffset + index), report, dialect.paramMatchers),
+  })
+  if (!resolved) {
+    skip?.({ file: originalFilePath, reason: 'not-a-route' })
+    return
   }
 
-  return results
+  namedView ||= resolved.view
+  if (resolved.modes)
+    modes.push(...resolved.modes)
+  const hasModes = modes.length > 0
+  const hasMeta = hasModes || !!namedView
+
+  return {
+    file: originalFilePath,
+    segments: resolved.segments,
+    meta: hasMeta
+      ? {
+          ...(hasModes ? { modes } : undefined),
+          ...(namedView ? { name: namedView } : undefined),
+          ...(resolved.viewOnly ? { viewOnly: true } : undefined),
+        }
+      : undefined,
+  }
+}
+
+// --- Ignore patterns ---------------------------------------------------------
+
+/** @internal */
+export interface IgnoreRule {
+  pattern?: string
+  test: (relativePath: string, filePath: string) => boolean
+}
+
+function compileIgnoreRule(rule: string | ((filePath: string) => boolean)): IgnoreRule {
+  if (typeof rule === 'function')
+    return { test: (_, filePath) => rule(filePath) }
+
+  const re = globToRegExp(rule)
+  return { pattern: rule, test: relativePath => re.test(relativePath) }
+}
+
+/**
+ * Compile a gitignore-style glob. A match on a folder also covers everything
+ * inside it.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const directory = pattern.endsWith('/')
+  const glob = withoutLeadingSlash(directory ? pattern.slice(0, -1) : pattern)
+  const anchored = glob.includes('/') || pattern[0] === '/'
+
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more folders, a trailing `**` everything
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*'
+      i += glob[i + 2] === '/' ? 2 : 1
+    }
+    else if (c === '*') {
+      source += '[^/]*'
+    }
+    else if (c === '?') {
+      source += '[^/]'
+    }
+    else {
+      source += escapeStringRegexp(c)
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}${directory ? '/' : '(?:/|$)'}`)
 }
 
 // --- parseSegment ------------------------------------------------------------
 const PARAM_CHAR_RE = /[\w.]/
 
-export function parseSegment(segment: string, absolutePath?: string, warn?: (message: string) => void): ParsedPathSegmentToken[] {
+export interface ParseSegmentOptions {
+  /**
+   * `'nuxt2'` also accepts the legacy `_id` (dynamic) and `_` (catchall) syntax.
+   * @default 'nuxt'
+   */
+  dialect?: 'nuxt' | 'nuxt2'
+}
+
+export function parseSegment(segment: string, absolutePath?: string, warn?: (message: string) => void, options: ParseSegmentOptions = {}): ParsedPathSegmentToken[] {
+  return (options.dialect === 'nuxt2' && parseNuxt2Segment(segment)) || parseSegmentAt(segment, absolutePath, warn, index => index, undefined, true)
+}
+
+/**
+ * Parse a segment, reporting error offsets through `locate` so that callers
+ * holding the full file path can translate them. With `matchers`, `[id=int]`
+ * stores `int` as the param's matcher.
+ */
+function parseSegmentAt(
+  segment: string,
+  absolutePath: string | undefined,
+  warn: ((message: string) => void) | undefined,
+  locate: (index: number) => number,
+  report?: DiagnosticReporter,
+  matchers = false,
+): ParsedPathSegmentToken[] {
   if (segment === '')
     return [{ type: 'static', value: '' }]
 
@@ -168,12 +493,27 @@ export function parseSegment(segment: string, absolutePath?: string, warn?: (mes
   let state: State = 'initial'
   let i = 0
   let buffer = ''
+  let matcher: string | undefined
+  let regexp: string | undefined
   let optionalCatchall = false
+  // Index of the `[` or `(` that opened the current param or group
+  let open = 0
   const tokens: ParsedPathSegmentToken[] = []
 
   function flush(type: SegmentType) {
-    tokens.push({ type, value: buffer })
+    const token: ParsedPathSegmentToken = { type, value: buffer }
+    if (matcher)
+      token.matcher = matcher
+    if (regexp)
+      token.regexp = regexp
+    tokens.push(token)
     buffer = ''
+    matcher = undefined
+    regexp = undefined
+  }
+
+  function fail(code: UnroutingParseErrorCode, message: string, start: number, end: number, hint: string) {
+    return new UnroutingParseError(absolutePath ? `${message} in "${absolutePath}"` : message, { code, file: absolutePath, segment, start: locate(start), end: locate(end), hint })
   }
 
   while (i < segment.length) {
@@ -182,6 +522,7 @@ export function parseSegment(segment: string, absolutePath?: string, warn?: (mes
     switch (state) {
       case 'initial':
         buffer = ''
+        open = i
         if (c === '[') {
           state = 'dynamic'
         }
@@ -197,10 +538,12 @@ export function parseSegment(segment: string, absolutePath?: string, warn?: (mes
       case 'static':
         if (c === '[') {
           flush(state)
+          open = i
           state = 'dynamic'
         }
         else if (c === '(') {
           flush(state)
+          open = i
           state = 'group'
         }
         else {
@@ -222,14 +565,10 @@ export function parseSegment(segment: string, absolutePath?: string, warn?: (mes
 
         if (c === ']' && ((state !== 'optional' && !optionalCatchall) || segment[i - 1] === ']')) {
           if (!buffer)
-            throw new Error('Empty param')
+            throw fail('EMPTY_PARAM', 'Empty param', open, i + 1, 'Add a parameter name between the brackets, e.g. `[id]`.')
 
           if (segment[i + 1] === '+') {
-            tokens.push({
-              type: state === 'optional' ? 'optional-repeatable' : 'repeatable',
-              value: buffer,
-            })
-            buffer = ''
+            flush(state === 'optional' ? 'optional-repeatable' : 'repeatable')
             i++
           }
           else {
@@ -240,15 +579,35 @@ export function parseSegment(segment: string, absolutePath?: string, warn?: (mes
         }
         else if (c === ')' && state === 'group') {
           if (!buffer)
-            throw new Error('Empty group')
+            throw fail('EMPTY_GROUP', 'Empty group', open, i + 1, 'Add a group name between the parentheses, e.g. `(admin)`.')
           flush(state)
           state = 'initial'
         }
+        else if (c === '(' && state !== 'group' && matcher === undefined && regexp === undefined) {
+          // vue-router and rou3 end a constraint at the first `)`, so it can't hold parentheses
+          const end = segment.indexOf(')', i)
+          if (end === -1)
+            throw fail('INVALID_CONSTRAINT', `Unfinished constraint "${segment.slice(i)}"`, i, segment.length, 'Close the constraint with `)` before the closing `]`.')
+          regexp = segment.slice(i + 1, end)
+          if (regexp.includes('('))
+            throw fail('INVALID_CONSTRAINT', `Parentheses in constraint "${regexp}"`, i, end + 1, 'Constraints end at the first `)`; rewrite it without groups, e.g. `[id(xz|yz)]`.')
+          if (!isValidRegExp(regexp))
+            throw fail('INVALID_CONSTRAINT', `Invalid constraint "${regexp}"`, i, end + 1, 'Use a valid regular expression, e.g. `[id(\\d+)]`.')
+          i = end
+        }
+        else if (matchers && c === '=' && state !== 'group' && matcher === undefined) {
+          matcher = ''
+        }
         else if (c && PARAM_CHAR_RE.test(c)) {
-          buffer += c
+          if (matcher === undefined)
+            buffer += c
+          else
+            matcher += c
         }
         else if ((state === 'dynamic' || state === 'optional') && c !== '[' && c !== ']') {
-          warn?.(`'${c}' is not allowed in a dynamic route parameter and has been ignored. Consider renaming '${absolutePath}'.`)
+          const message = `'${c}' is not allowed in a dynamic route parameter and has been ignored. Consider renaming '${absolutePath}'.`
+          warn?.(message)
+          report?.({ severity: 'warning', code: 'INVALID_PARAM_CHAR', file: absolutePath!, range: { start: locate(i), end: locate(i + 1) }, message })
         }
         break
     }
@@ -256,9 +615,9 @@ export function parseSegment(segment: string, absolutePath?: string, warn?: (mes
   }
 
   if (state === 'dynamic')
-    throw new Error(`Unfinished param "${buffer}"`)
+    throw fail('UNFINISHED_PARAM', `Unfinished param "${buffer}"`, open, segment.length, 'Close the parameter with `]`.')
   if (state === 'group')
-    throw new Error(`Unfinished group "${buffer}"`)
+    throw fail('UNFINISHED_GROUP', `Unfinished group "${buffer}"`, open, segment.length, 'Close the group with `)`.')
   if (state !== 'initial' && buffer)
     flush(state)
 
@@ -268,3 +627,12 @@ export function parseSegment(segment: string, absolutePath?: string, warn?: (mes
 
   return tokens
 }
+
+function isValidRegExp(source: string): boolean {
+  try {
+    return !!new RegExp(source)
+  }
+  catch {
+    return false
+  }
+}
@@ -0,0 +1,73 @@
+import type { VueRouterEmitOptions } from './converters'
+import type { RouteTree } from './tree'
+import { flattenVueRoutes, getVueRoutes } from './converters'
+
+export interface ResolveFileRouteOptions {
+  /** Route name generator, as passed to `toVueRouter4`. */
+  getRouteName?: VueRouterEmitOptions['getRouteName']
+}
+
+export interface FileRouteInfo {
+  /**
+   * File the route is generated from. Differs from the resolved file for
+   * named views and mode variants.
+   */
+  file: string
+  /** Full path, including the paths of parent routes. */
+  path: string
+  name?: string
+  /** View the resolved file renders into. */
+  viewName: string
+  /** File of the parent route, for nested routes. */
+  parent?: string
+  /** Files of the direct child routes. */
+  children: string[]
+  /** Files of the routes from the top level down to this one. */
+  chain: string[]
+  groups: string[]
+  modes?: string[]
+}
+
+/**
+ * Describe the route a file produces, e.g. for an editor hover: its full
+ * path, name, position in the route hierarchy, groups and modes.
+ *
+ * Uses the same output as `toVueRouter4`, cached on the tree. Returns
+ * `undefined` for files that are not in the tree or are shadowed by a
+ * higher-priority file.
+ *
+ * @example
+ * resolveFileRoute(tree, 'pages/users/[id].vue')
+ * // { path: '/users/:id()', name: 'users-id', parent: 'pages/users.vue', chain: ['pages/users.vue', 'pages/users/[id].vue'], ... }
+ */
+export function resolveFileRoute(tree: RouteTree, filePath: string, options: ResolveFileRouteOptions = {}): FileRouteInfo | undefined {
+  const node = tree['~fileIndex'].get(filePath)
+  const file = node?.files.find(f => f.path === filePath)
+  if (!node || !file)
+    return undefined
+
+  // The route is generated from one of the files sharing the view's groups
+  const groupKey = file.groups.join(',')
+  const routeFiles = new Set(node.files.filter(f => f.groups.join(',') === groupKey).map(f => f.path))
+
+  const entry = flattenVueRoutes(getVueRoutes(tree, { getRouteName: options.getRouteName })).find(e => routeFiles.has(e.route.file!))
+  if (!entry)
+    return undefined
+
+  const { route, path, parents } = entry
+  const info: FileRouteInfo = {
+    file: route.file!,
+    path,
+    viewName: file.viewName,
+    children: route.children.map(child => child.file!),
+    chain: [...parents.map(p => p.route.file!), route.file!],
+    groups: file.groups,
+  }
+  if (route.name !== undefined)
+    info.name = route.name
+  if (parents.length)
+    info.parent = parents.at(-1)!.route.file
+  if (route.modes)
+    info.modes = route.modes
+  return info
+}
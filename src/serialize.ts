@@ -0,0 +1,110 @@
+import type { ParsedPathSegment, SkippedFile, UnroutingDiagnostic } from './parse'
+import type { RouteNode, RouteNodeFile, RouteTree } from './tree'
+
+/**
+ * Version of the serialized format. Bumped whenever the shape changes, so
+ * stale caches are rejected instead of producing a broken tree.
+ */
+const SERIALIZED_TREE_VERSION = 1
+
+interface SerializedTree {
+  version: number
+  root: SerializedNode
+  diagnostics: UnroutingDiagnostic[]
+  skipped: SkippedFile[]
+  matchers?: Record<string, string>
+  duplicateParams?: RouteTree['~duplicateParams']
+}
+
+interface SerializedNode {
+  rawSegment: string
+  segment: ParsedPathSegment
+  files: RouteNodeFile[]
+  /** Shadowed files by dedupe key, next in line last. */
+  shadowed?: Array<[string, RouteNodeFile[]]>
+  children: SerializedNode[]
+}
+
+/**
+ * Serialize a route tree to a JSON string, e.g. to cache it on disk between
+ * builds. Restore it with `deserializeTree` and apply `addFile` / `removeFile`
+ * for the files that changed since.
+ *
+ * `RegExp` matchers are stored by their source.
+ */
+export function serializeTree(tree: RouteTree): string {
+  const serialized: SerializedTree = {
+    version: SERIALIZED_TREE_VERSION,
+    root: serializeNode(tree.root),
+    diagnostics: tree.diagnostics,
+    skipped: tree.skipped,
+  }
+  if (tree['~matchers']) {
+    serialized.matchers = Object.fromEntries(Object.entries(tree['~matchers']).map(
+      ([name, matcher]) => [name, typeof matcher === 'string' ? matcher : matcher.source],
+    ))
+  }
+  if (tree['~duplicateParams'])
+    serialized.duplicateParams = tree['~duplicateParams']
+  return JSON.stringify(serialized)
+}
+
+function serializeNode(node: RouteNode): SerializedNode {
+  const serialized: SerializedNode = {
+    rawSegment: node.rawSegment,
+    segment: node.segment,
+    files: node.files,
+    children: [...node.children.values()].map(serializeNode),
+  }
+  if (node['~shadowed']?.size)
+    serialized.shadowed = [...node['~shadowed']]
+  return serialized
+}
+
+/**
+ * Restore a route tree from `serializeTree` output. The file indexes are
+ * rebuilt from the restored nodes.
+ *
+ * Throws if the string was produced by an incompatible version of unrouting.
+ */
+export function deserializeTree(json: string): RouteTree {
+  const serialized = JSON.parse(json) as SerializedTree
+  if (serialized?.version !== SERIALIZED_TREE_VERSION)
+    throw new TypeError(`[unrouting] Cannot deserialize route tree with format version ${serialized?.version}; expected version ${SERIALIZED_TREE_VERSION}. Rebuild the tree with \`buildTree\`.`)
+
+  const indexes: Pick<RouteTree, '~fileIndex' | '~shadowIndex'> = { '~fileIndex': new Map(), '~shadowIndex': new Map() }
+  return {
+    'root': deserializeNode(serialized.root, null, indexes),
+    'diagnostics': serialized.diagnostics,
+    'skipped': serialized.skipped,
+    '~dirty': true,
+    '~revision': 0,
+    ...indexes,
+    '~matchers': serialized.matchers,
+    '~duplicateParams': serialized.duplicateParams,
+  }
+}
+
+function deserializeNode(serialized: SerializedNode, parent: RouteNode | null, indexes: Pick<RouteTree, '~fileIndex' | '~shadowIndex'>): RouteNode {
+  const node: RouteNode = {
+    rawSegment: serialized.rawSegment,
+    segment: serialized.segment,
+    files: serialized.files,
+    children: new Map(),
+    parent,
+  }
+  for (const file of node.files)
+    indexes['~fileIndex'].set(file.path, node)
+
+  if (serialized.shadowed) {
+    node['~shadowed'] = new Map(serialized.shadowed)
+    for (const [, stack] of serialized.shadowed) {
+      for (const file of stack)
+        indexes['~shadowIndex'].set(file.path, node)
+    }
+  }
+
+  for (const child of serialized.children)
+    node.children.set(child.rawSegment, deserializeNode(child, node, indexes))
+  return node
+}
@@ -1,5 +1,6 @@
-import type { CompiledParsePath, ParsedPath, ParsedPathSegment, ParsePathOptions } from './parse'
-import { parsePath } from './parse'
+import type { CompiledParsePath, ParseContext, ParsedPath, ParsedPathSegment, ParsePathOptions, SkippedFile, UnroutingDiagnostic } from './parse'
+import { withTrailingSlash } from 'ufo'
+import { createParseContext, errorToDiagnostic, parsePathInner, UnroutingParseError } from './parse'
 
 // --- Types -------------------------------------------------------------------
 
@@ -10,6 +11,8 @@ export interface RouteNodeFile {
   'relativePath': string
   /** Named view slot (`'default'` unless `@name` suffix was used) */
   'viewName': string
+  /** Whether the view only renders next to a default view, never as a route of its own. */
+  'viewOnly'?: boolean
   /** Mode variants (e.g. `['client']`, `['server']`) */
   'modes'?: string[]
   /** Route group names from transparent group segments */
@@ -18,6 +21,8 @@ export interface RouteNodeFile {
   'originalSegments': ParsedPathSegment[]
   /** Layer priority — lower number wins. @default 0 */
   'priority': number
+  /** Name of the layer the file comes from, from `InputFile.layer`. */
+  'layer'?: string
   /**
    * Precomputed key for duplicate detection
    * @internal
@@ -32,12 +37,18 @@ export interface RouteNodeFile {
  * Page nodes create nesting boundaries; structural nodes collapse into children.
  */
 export interface RouteNode {
-  rawSegment: string
-  segment: ParsedPathSegment
+  'rawSegment': string
+  'segment': ParsedPathSegment
   /** Attached files. Empty = structural node. */
-  files: RouteNodeFile[]
-  children: Map<string, RouteNode>
-  parent: RouteNode | null
+  'files': RouteNodeFile[]
+  'children': Map<string, RouteNode>
+  'parent': RouteNode | null
+  /**
+   * Files that lost a duplicate collision, by dedupe key. The last file of
+   * each stack takes over when the winning file is removed.
+   * @internal
+   */
+  '~shadowed'?: Map<string, RouteNodeFile[]>
 }
 
 /** Input file with optional layer priority. */
@@ -45,6 +56,8 @@ export interface InputFile {
   path: string
   /** Layer priority — lower number wins. @default 0 */
   priority?: number
+  /** Layer name, surfaced in converter output and `getLayerReport`. */
+  layer?: string
 }
 
 export interface BuildTreeOptions extends ParsePathOptions {
@@ -59,10 +72,42 @@ export interface BuildTreeOptions extends ParsePathOptions {
    * @default 'first-wins'
    */
   duplicateStrategy?: 'first-wins' | 'last-wins' | 'error'
+  /**
+   * Param matchers by name, applied by the converters to params declared as
+   * `[id=int]`. Anchors are optional: `/^\d+$/` and `'\\d+'` are equivalent.
+   * Params using a name missing from the registry are reported as warnings.
+   *
+   * @example
+   * buildTree(files, { matchers: { int: /^\d+$/, uuid: '[\\da-f]{8}-[\\da-f]{4}-[\\da-f]{4}-[\\da-f]{4}-[\\da-f]{12}' } })
+   */
+  matchers?: Record<string, string | RegExp>
+  /**
+   * How to handle a param name used more than once in a file path, e.g.
+   * `[id]/comments/[id].vue`. Converters can't represent both params.
+   *
+   * - `'error'` — throw a `DUPLICATE_PARAM` error, or record it as a
+   *   diagnostic in `diagnostics: 'collect'` mode.
+   * - `'suffix'` — rename repeated params to `id_1`, `id_2`, ... in every
+   *   converter and report a warning.
+   *
+   * @default 'error'
+   */
+  duplicateParams?: 'error' | 'suffix'
 }
 
 export interface RouteTree {
   'root': RouteNode
+  /**
+   * Problems found while building or updating the tree in
+   * `diagnostics: 'collect'` mode. Files with errors are left out of the tree.
+   * `addFile` / `removeFile` replace the entries for the file they touch.
+   */
+  'diagnostics': UnroutingDiagnostic[]
+  /**
+   * Files left out of the tree because they matched an `ignore` pattern or
+   * aren't routes in the chosen dialect. Updated by `addFile` / `removeFile`.
+   */
+  'skipped': SkippedFile[]
   /**
    * Whether the tree has been modified since the last converter output.
    * Set to `true` by `addFile` / `removeFile` / `buildTree`.
@@ -70,14 +115,74 @@ export interface RouteTree {
    * @internal
    */
   '~dirty': boolean
+  /**
+   * Number of mutations applied to the tree, for caches that must not touch
+   * `~dirty`.
+   * @internal
+   */
+  '~revision': number
   /**
    * Index from file path to the node that contains it.
    * Enables O(1) lookup for `removeFile`.
    * @internal
    */
   '~fileIndex': Map<string, RouteNode>
+  /**
+   * Index from file path to the node that keeps it as a shadowed file.
+   * @internal
+   */
+  '~shadowIndex': Map<string, RouteNode>
+  /**
+   * Matcher registry from `BuildTreeOptions.matchers`, read by the converters.
+   * @internal
+   */
+  '~matchers'?: Record<string, string | RegExp>
+  /**
+   * `BuildTreeOptions.duplicateParams`, so `addFile` keeps accepting the
+   * paths `buildTree` accepted.
+   * @internal
+   */
+  '~duplicateParams'?: BuildTreeOptions['duplicateParams']
+  /**
+   * Listeners registered with `onTreeChange`.
+   * @internal
+   */
+  '~listeners'?: Set<TreeChangeListener>
+  /**
+   * Changes collected by the running `batch`, delivered when it ends.
+   * @internal
+   */
+  '~transaction'?: TreeTransaction
 }
 
+/** @internal */
+interface TreeTransaction {
+  changes: TreeChangeEvent[]
+  /** Nodes to prune once the transaction ends, if they are still empty. */
+  prune: Set<RouteNode>
+}
+
+/**
+ * A mutation of the tree, delivered to `onTreeChange` listeners. Only files
+ * that are used for routes are reported: a file that loses a collision emits
+ * nothing until it takes over.
+ *
+ * - `'file-added'` — a file was added, or took over after the file shadowing
+ *   it was removed.
+ * - `'file-replaced'` — a file won a collision (e.g. from a higher-priority
+ *   layer); `replaced` is kept as a shadowed file.
+ * - `'file-removed'` — a file was removed.
+ * - `'node-pruned'` — a node left without files or children was removed.
+ */
+export type TreeChangeEvent
+  = | { type: 'file-added', file: RouteNodeFile, node: RouteNode }
+    | { type: 'file-replaced', file: RouteNodeFile, replaced: RouteNodeFile, node: RouteNode }
+    | { type: 'file-removed', file: RouteNodeFile, node: RouteNode }
+    | { type: 'node-pruned', node: RouteNode }
+
+/** Receives the changes made by one `addFile`, `removeFile`, `renameFile` or `batch` call, in order. */
+export type TreeChangeListener = (changes: TreeChangeEvent[]) => void
+
 // --- Tree construction -------------------------------------------------------
 
 function createNode(rawSegment: string, segment: ParsedPathSegment, parent: RouteNode | null): RouteNode {
@@ -88,36 +193,36 @@ function createNode(rawSegment: string, segment: ParsedPathSegment, parent: Rout
  * Build a route tree from file paths.
  *
  * Accepts `string[]`, `InputFile[]`, or `ParsedPath[]`.
- * On collision, the file with the lowest priority number wins.
+ * On collision, the file with the lowest priority number wins. Losing files
+ * are kept so that removing the winner restores them.
  */
 export function buildTree(
   input: string[] | InputFile[] | ParsedPath[],
   options: BuildTreeOptions = {},
 ): RouteTree {
   const root = createNode('', [{ type: 'static', value: '' }], null)
-  const fileIndex = new Map<string, RouteNode>()
+  const tree: RouteTree = { root, 'diagnostics': [], 'skipped': [], '~dirty': true, '~revision': 0, '~fileIndex': new Map(), '~shadowIndex': new Map(), '~matchers': options.matchers, '~duplicateParams': options.duplicateParams }
 
   if (input.length === 0)
-    return { root, '~dirty': true, '~fileIndex': fileIndex }
+    return tree
+
+  const context = createParseContext(options)
 
   if (isParsedPaths(input)) {
     for (const p of input)
-      insertParsedPath(root, p, 0, options, fileIndex)
-  }
-  else if (isInputFiles(input)) {
-    const paths = input.map(f => f.path)
-    const priorities = input.map(f => f.priority ?? 0)
-    const parsed = parsePath(paths, options)
-    for (let i = 0; i < parsed.length; i++)
-      insertParsedPath(root, parsed[i], priorities[i], options, fileIndex)
+      insertFile(tree, p, { path: p.file }, options, context)
+    return tree
   }
-  else {
-    const parsed = parsePath(input as string[], options)
-    for (const p of parsed)
-      insertParsedPath(root, p, 0, options, fileIndex)
+
+  const report = context.collect ? (diagnostic: UnroutingDiagnostic) => tree.diagnostics.push(diagnostic) : undefined
+  const skip = (skipped: SkippedFile) => tree.skipped.push(skipped)
+  for (const file of input as Array<string | InputFile>) {
+    const [parsed] = parsePathInner([typeof file === 'string' ? file : file.path], context, report, skip)
+    if (parsed)
+      insertFile(tree, parsed, typeof file === 'string' ? { path: file } : file, options, context)
   }
 
-  return { root, '~dirty': true, '~fileIndex': fileIndex }
+  return tree
 }
 
 function isParsedPaths(input: unknown[]): input is ParsedPath[] {
@@ -125,13 +230,95 @@ function isParsedPaths(input: unknown[]): input is ParsedPath[] {
   return !!first && typeof first === 'object' && 'segments' in first
 }
 
-function isInputFiles(input: unknown[]): input is InputFile[] {
-  const first = input[0]
-  return !!first && typeof first === 'object' && 'path' in first && !('segments' in first)
+/** Insert a parsed file, recording tree-level errors as diagnostics in collect mode. */
+function insertFile(tree: RouteTree, parsedPath: ParsedPath, input: InputFile, options: BuildTreeOptions, context: ParseContext): void {
+  try {
+    parsedPath = resolveDuplicateParams(tree, parsedPath, options, context)
+    insertParsedPath(tree, parsedPath, input, options)
+  }
+  catch (error) {
+    if (!context.collect || !(error instanceof UnroutingParseError))
+      throw error
+    tree.diagnostics.push(errorToDiagnostic(error))
+    return
+  }
+  checkMatchers(tree, parsedPath, context)
+}
+
+/** Warn about params whose matcher is missing from the tree's registry. */
+function checkMatchers(tree: RouteTree, parsedPath: ParsedPath, context: ParseContext): void {
+  const matchers = tree['~matchers'] || {}
+  for (const token of parsedPath.segments.flat()) {
+    if (!token.matcher || Object.hasOwn(matchers, token.matcher))
+      continue
+    const message = `Unknown matcher "${token.matcher}" for param "${token.value}" in "${parsedPath.file}"; the param is left unconstrained.`
+    context.warn?.(message)
+    if (context.collect) {
+      const start = parsedPath.file.indexOf(`=${token.matcher}`) + 1
+      tree.diagnostics.push({
+        severity: 'warning',
+        code: 'UNKNOWN_MATCHER',
+        file: parsedPath.file,
+        range: { start, end: start + token.matcher.length },
+        message,
+        hint: `Add \`${token.matcher}\` to the \`matchers\` option of \`buildTree\`.`,
+      })
+    }
+  }
+}
+
+/**
+ * Throw on params whose name is already used earlier in the path, or rename
+ * them with the `suffix` strategy. Falls back to the tree's strategy when
+ * `options` don't set one. Input paths are never mutated.
+ */
+function resolveDuplicateParams(tree: RouteTree, parsedPath: ParsedPath, options: BuildTreeOptions, context: ParseContext): ParsedPath {
+  const params = parsedPath.segments.flat().filter(token => token.type !== 'static' && token.type !== 'group')
+  const names = new Set(params.map(token => token.value))
+  if (names.size === params.length)
+    return parsedPath
+
+  const seen = new Set<string>()
+  let cursor = 0
+  const segments = parsedPath.segments.map(segment => segment.map((token) => {
+    // Track the token's position in the file for the diagnostic range
+    const start = Math.max(parsedPath.file.indexOf(token.value, cursor), cursor)
+    cursor = start + token.value.length
+    if (token.type === 'static' || token.type === 'group')
+      return token
+    if (!seen.has(token.value)) {
+      seen.add(token.value)
+      return token
+    }
+
+    const range = { start, end: cursor }
+    if ((options.duplicateParams ?? tree['~duplicateParams']) !== 'suffix') {
+      throw new UnroutingParseError(`Duplicate param "${token.value}" in "${parsedPath.file}"`, {
+        code: 'DUPLICATE_PARAM',
+        file: parsedPath.file,
+        segment: parsedPath.file,
+        ...range,
+        hint: 'Rename one of the params, or set `duplicateParams: \'suffix\'` to rename them automatically.',
+      })
+    }
+
+    let index = 1
+    while (names.has(`${token.value}_${index}`))
+      index++
+    const value = `${token.value}_${index}`
+    names.add(value)
+    const message = `Duplicate param "${token.value}" in "${parsedPath.file}"; renamed to "${value}".`
+    context.warn?.(message)
+    if (context.collect)
+      tree.diagnostics.push({ severity: 'warning', code: 'DUPLICATE_PARAM', file: parsedPath.file, range, message, hint: 'Rename one of the params.' })
+    return { ...token, value }
+  }))
+  return { ...parsedPath, segments }
 }
 
-function insertParsedPath(root: RouteNode, parsedPath: ParsedPath, priority: number, options: BuildTreeOptions, fileIndex?: Map<string, RouteNode>): void {
-  let current = root
+function insertParsedPath(tree: RouteTree, parsedPath: ParsedPath, input: InputFile, options: BuildTreeOptions): void {
+  const priority = input.priority ?? 0
+  let current = tree.root
   const groups: string[] = []
 
   for (const segment of parsedPath.segments) {
@@ -161,26 +348,60 @@ function insertParsedPath(root: RouteNode, parsedPath: ParsedPath, priority: num
     priority,
     '~dedupeKey': dedupeKey,
   }
+  if (input.layer !== undefined)
+    fileEntry.layer = input.layer
+  if (parsedPath.meta?.viewOnly)
+    fileEntry.viewOnly = true
+
+  const strategy = options.duplicateStrategy || 'first-wins'
+  if (strategy !== 'error') {
+    // Re-adding a file replaces it in its place among files of equal priority;
+    // one that moved to another view or priority is re-added as if added last
+    if (replaceFile(tree, current, fileEntry))
+      return
+    detachFile(tree, current, parsedPath.file)
+  }
 
   // Two files are duplicates when they share the same view, modes, and groups.
   const existing = current.files.find(f => f['~dedupeKey'] === dedupeKey)
 
   if (!existing) {
     current.files.push(fileEntry)
-    fileIndex?.set(parsedPath.file, current)
+    tree['~fileIndex'].set(parsedPath.file, current)
+    emit(tree, { type: 'file-added', file: fileEntry, node: current })
     return
   }
 
-  const strategy = options.duplicateStrategy || 'first-wins'
-  if (strategy === 'error')
-    throw new Error(`Duplicate route file for view "${viewName}": "${existing.path}" and "${parsedPath.file}"`)
+  if (strategy === 'error') {
+    throw new UnroutingParseError(`Duplicate route file for view "${viewName}": "${existing.path}" and "${parsedPath.file}"`, {
+      code: 'DUPLICATE_FILE',
+      file: parsedPath.file,
+      segment: parsedPath.file,
+      start: 0,
+      end: parsedPath.file.length,
+      hint: 'Remove one of the files, or use the `first-wins` or `last-wins` duplicate strategy.',
+    })
+  }
+
+  current['~shadowed'] ||= new Map()
+  const stack = current['~shadowed'].get(dedupeKey) || []
+  current['~shadowed'].set(dedupeKey, stack)
 
-  const idx = current.files.indexOf(existing)
   if (strategy === 'last-wins' || priority < existing.priority) {
-    fileIndex?.delete(existing.path)
-    current.files[idx] = fileEntry
-    fileIndex?.set(parsedPath.file, current)
+    current.files[current.files.indexOf(existing)] = fileEntry
+    tree['~fileIndex'].delete(existing.path)
+    tree['~fileIndex'].set(parsedPath.file, current)
+    // The previous winner is next in line
+    stack.push(existing)
+    tree['~shadowIndex'].set(existing.path, current)
+    emit(tree, { type: 'file-replaced', file: fileEntry, replaced: existing, node: current })
+    return
   }
+
+  // Keep the stack ordered so the lowest priority, earliest file is on top
+  const below = stack.findIndex(f => f.priority <= priority)
+  stack.splice(below === -1 ? stack.length : below, 0, fileEntry)
+  tree['~shadowIndex'].set(parsedPath.file, current)
 }
 
 // --- Incremental updates -----------------------------------------------------
@@ -200,66 +421,254 @@ export function addFile(
   filePath: string | InputFile,
   options: BuildTreeOptions | CompiledParsePath = {},
 ): void {
-  const path = typeof filePath === 'string' ? filePath : filePath.path
-  const priority = typeof filePath === 'string' ? 0 : (filePath.priority ?? 0)
-  const parseOne = isCompiledParsePath(options) ? options : parsePath
-  const parseOpts = isCompiledParsePath(options) ? undefined : options
-  const [parsed] = parseOne([path], parseOpts as any)
-  insertParsedPath(tree.root, parsed, priority, (isCompiledParsePath(options) ? {} : options) as BuildTreeOptions, tree['~fileIndex'])
-  tree['~dirty'] = true
+  const input = typeof filePath === 'string' ? { path: filePath } : filePath
+  const path = input.path
+  const context = isCompiledParsePath(options) ? options['~context'] : createParseContext(options)
+  const report = context.collect ? (diagnostic: UnroutingDiagnostic) => tree.diagnostics.push(diagnostic) : undefined
+  batch(tree, () => {
+    clearFileRecords(tree, path)
+    const [parsed] = parsePathInner([path], context, report, skipped => tree.skipped.push(skipped))
+    if (parsed)
+      insertFile(tree, parsed, input, (isCompiledParsePath(options) ? {} : options) as BuildTreeOptions, context)
+    markDirty(tree)
+  })
 }
 
 /**
  * Remove a file from an existing route tree by its original file path.
  *
- * Prunes empty structural nodes left behind. Returns `true` if the file was
- * found and removed.
+ * If the file was shadowing another one at the same position (e.g. from a
+ * lower-priority layer), that file takes its place. Prunes empty structural
+ * nodes left behind and drops any diagnostics or skipped entry recorded for
+ * the file. Returns `true` if the file was found and removed.
  */
 export function removeFile(tree: RouteTree, filePath: string): boolean {
+  return batch(tree, () => removeFileInner(tree, filePath))
+}
+
+function removeFileInner(tree: RouteTree, filePath: string): boolean {
+  clearFileRecords(tree, filePath)
+
   // Fast path: use file index if available
-  const node = tree['~fileIndex']?.get(filePath)
-  if (node) {
-    const idx = node.files.findIndex(f => f.path === filePath)
-    if (idx !== -1) {
-      node.files.splice(idx, 1)
-      tree['~fileIndex'].delete(filePath)
-      pruneEmptyAncestors(node)
-      tree['~dirty'] = true
-      return true
-    }
+  const node = tree['~fileIndex']?.get(filePath) || tree['~shadowIndex']?.get(filePath)
+  if (node && detachFile(tree, node, filePath)) {
+    tree['~transaction']!.prune.add(node)
+    markDirty(tree)
+    return true
   }
 
   // Fallback: DFS search (for trees built without index)
-  const removed = removeFromNode(tree.root, filePath)
+  const removed = removeFromNode(tree, tree.root, filePath)
   if (removed)
-    tree['~dirty'] = true
+    markDirty(tree)
   return removed
 }
 
-function removeFromNode(node: RouteNode, filePath: string): boolean {
-  // Check files on this node
+/**
+ * Rename a file in one step. The file keeps its priority and layer, and the
+ * ancestors it shared with the old path are not pruned in between. Skipped
+ * and malformed files are renamed too, so they are checked again.
+ * Returns `false` and leaves the tree unchanged if the old file is unknown.
+ */
+export function renameFile(
+  tree: RouteTree,
+  from: string,
+  to: string,
+  options: BuildTreeOptions | CompiledParsePath = {},
+): boolean {
+  const file = findFile(tree, from)
+  const hasRecords = [...tree.diagnostics, ...tree.skipped].some(record => record.file === from)
+  return batch(tree, () => {
+    if (!removeFileInner(tree, from) && !hasRecords)
+      return false
+    addFile(tree, { path: to, priority: file?.priority, layer: file?.layer }, options)
+    return true
+  })
+}
+
+/**
+ * Remove every file under a directory, e.g. when a folder is deleted.
+ * Diagnostics and skipped entries for files under it are dropped too.
+ * Returns the paths of the removed files.
+ */
+export function removeDirectory(tree: RouteTree, directory: string): string[] {
+  const prefix = withTrailingSlash(directory)
+  return batch(tree, () => {
+    const removed = filesUnder(tree, prefix).filter(path => removeFileInner(tree, path))
+    for (const path of recordsUnder(tree, prefix))
+      clearFileRecords(tree, path)
+    return removed
+  })
+}
+
+/**
+ * Move every file under a directory to a new one, keeping priorities and
+ * layers. Files that were skipped or failed to parse are added again under
+ * the new path. Returns the new paths of the moved files.
+ */
+export function moveDirectory(
+  tree: RouteTree,
+  from: string,
+  to: string,
+  options: BuildTreeOptions | CompiledParsePath = {},
+): string[] {
+  const prefix = withTrailingSlash(from)
+  const target = withTrailingSlash(to)
+  return batch(tree, () => {
+    const inputs: InputFile[] = [...new Set([...filesUnder(tree, prefix), ...recordsUnder(tree, prefix)])].map((path) => {
+      const file = findFile(tree, path)
+      return { path: target + path.slice(prefix.length), priority: file?.priority, layer: file?.layer }
+    })
+    removeDirectory(tree, from)
+    for (const input of inputs)
+      addFile(tree, input, options)
+    return inputs.map(input => input.path)
+  })
+}
+
+/**
+ * Apply several `addFile` / `removeFile` / `renameFile` calls as one change.
+ * Empty nodes are pruned once at the end, and `onTreeChange` listeners are
+ * called once with all changes, e.g. after a git checkout touching many pages.
+ *
+ * If `fn` throws, the changes it made so far stay in the tree and listeners
+ * still receive them before the error is rethrown.
+ *
+ * @example
+ * batch(tree, () => {
+ *   for (const file of removed) removeFile(tree, file)
+ *   for (const file of added) addFile(tree, file, opts)
+ * })
+ */
+export function batch<T>(tree: RouteTree, fn: () => T): T {
+  if (tree['~transaction'])
+    return fn()
+
+  const transaction: TreeTransaction = { changes: [], prune: new Set() }
+  tree['~transaction'] = transaction
+  try {
+    return fn()
+  }
+  finally {
+    delete tree['~transaction']
+    for (const node of transaction.prune)
+      pruneEmptyAncestors(node, transaction.changes)
+    if (transaction.changes.length > 0) {
+      for (const listener of tree['~listeners'] || [])
+        listener(transaction.changes)
+    }
+  }
+}
+
+/** Paths of the files in the tree under a directory, shadowed files included. */
+function filesUnder(tree: RouteTree, prefix: string): string[] {
+  return [...tree['~fileIndex'].keys(), ...tree['~shadowIndex'].keys()].filter(path => path.startsWith(prefix))
+}
+
+/** Paths with diagnostics or skipped entries under a directory. */
+function recordsUnder(tree: RouteTree, prefix: string): string[] {
+  return [...tree.diagnostics, ...tree.skipped].map(record => record.file).filter(path => path.startsWith(prefix))
+}
+
+/** Invalidate converter caches after a mutation. */
+function markDirty(tree: RouteTree): void {
+  tree['~dirty'] = true
+  tree['~revision']++
+}
+
+/** Drop the diagnostics and skipped entries recorded for a file. */
+function clearFileRecords(tree: RouteTree, filePath: string): void {
+  for (const records of [tree.diagnostics, tree.skipped]) {
+    for (let i = records.length - 1; i >= 0; i--) {
+      if (records[i].file === filePath)
+        records.splice(i, 1)
+    }
+  }
+}
+
+/**
+ * Remove a file from a node's files or shadowed stacks. A removed winner is
+ * replaced by the top of its stack.
+ */
+function detachFile(tree: RouteTree, node: RouteNode, filePath: string): boolean {
   const idx = node.files.findIndex(f => f.path === filePath)
   if (idx !== -1) {
-    node.files.splice(idx, 1)
-    pruneEmptyAncestors(node)
+    const [file] = node.files.splice(idx, 1)
+    tree['~fileIndex'].delete(filePath)
+    emit(tree, { type: 'file-removed', file, node })
+    const next = popShadowed(node, file['~dedupeKey']!)
+    if (next) {
+      node.files.splice(idx, 0, next)
+      tree['~shadowIndex'].delete(next.path)
+      tree['~fileIndex'].set(next.path, node)
+      emit(tree, { type: 'file-added', file: next, node })
+    }
+    return true
+  }
+
+  for (const [key, stack] of node['~shadowed'] || []) {
+    const shadowedIdx = stack.findIndex(f => f.path === filePath)
+    if (shadowedIdx !== -1) {
+      stack.splice(shadowedIdx, 1)
+      if (stack.length === 0)
+        node['~shadowed']!.delete(key)
+      tree['~shadowIndex'].delete(filePath)
+      return true
+    }
+  }
+
+  return false
+}
+
+function replaceFile(tree: RouteTree, node: RouteNode, file: RouteNodeFile): boolean {
+  const files = [node.files, ...(node['~shadowed']?.values() || [])].find(files => files.some(f => f.path === file.path))
+  const idx = files?.findIndex(f => f.path === file.path) ?? -1
+  const previous = files?.[idx]
+  if (!previous || previous['~dedupeKey'] !== file['~dedupeKey'] || previous.priority !== file.priority)
+    return false
+
+  files![idx] = file
+  if (files === node.files) {
+    emit(tree, { type: 'file-removed', file: previous, node })
+    emit(tree, { type: 'file-added', file, node })
+  }
+  return true
+}
+
+function popShadowed(node: RouteNode, dedupeKey: string): RouteNodeFile | undefined {
+  const stack = node['~shadowed']?.get(dedupeKey)
+  const file = stack?.pop()
+  if (stack?.length === 0)
+    node['~shadowed']!.delete(dedupeKey)
+  return file
+}
+
+function removeFromNode(tree: RouteTree, node: RouteNode, filePath: string): boolean {
+  // Check files on this node
+  if (detachFile(tree, node, filePath)) {
+    tree['~transaction']!.prune.add(node)
     return true
   }
 
   // Recurse into children
   for (const child of node.children.values()) {
-    if (removeFromNode(child, filePath))
+    if (removeFromNode(tree, child, filePath))
       return true
   }
 
   return false
 }
 
-function pruneEmptyAncestors(node: RouteNode): void {
+function pruneEmptyAncestors(node: RouteNode, changes: TreeChangeEvent[]): void {
   // Walk up from the node, removing any that have no files and no children
   let current: RouteNode | null = node
   while (current && current.parent) {
+    // Skip nodes already pruned through another descendant
+    if (current.parent.children.get(current.rawSegment) !== current)
+      break
     if (current.files.length === 0 && current.children.size === 0) {
       current.parent.children.delete(current.rawSegment)
+      changes.push({ type: 'node-pruned', node: current })
       current = current.parent
     }
     else {
@@ -281,32 +690,114 @@ export function walkTree(tree: RouteTree, visitor: (node: RouteNode, depth: numb
   walk(tree.root, 0)
 }
 
+/**
+ * Subscribe to mutations made by `addFile`, `removeFile`, `renameFile` and
+ * `batch`. Each call delivers its changes in one array. Returns a function
+ * that removes the listener.
+ *
+ * @example
+ * const off = onTreeChange(tree, (changes) => {
+ *   for (const change of changes) {
+ *     if (change.type === 'file-removed')
+ *       console.log(`${change.file.path} removed`)
+ *   }
+ * })
+ */
+export function onTreeChange(tree: RouteTree, listener: TreeChangeListener): () => void {
+  tree['~listeners'] ||= new Set()
+  tree['~listeners'].add(listener)
+  return () => {
+    tree['~listeners']!.delete(listener)
+  }
+}
+
+/**
+ * List the files attached to a node and its descendants, depth-first. Pass
+ * `tree.root` to list every file. Shadowed files are not included.
+ */
+export function listFiles(node: RouteNode): RouteNodeFile[] {
+  const files = [...node.files]
+  for (const child of node.children.values())
+    files.push(...listFiles(child))
+  return files
+}
+
 /** True if the node has files attached (is a "page node"). */
 export function isPageNode(node: RouteNode): boolean {
   return node.files.length > 0
 }
 
+export interface LayerReportFile {
+  file: string
+  layer?: string
+  priority: number
+}
+
+export interface LayerReportEntry {
+  /** Relative path of the route file, e.g. `users/[id].vue`. */
+  relativePath: string
+  /** File the route is generated from. */
+  winner: LayerReportFile
+  /** Files at the same position that lost to `winner`, next in line first. */
+  overridden: LayerReportFile[]
+}
+
+/**
+ * List the file each route is generated from and the files it overrides,
+ * e.g. to see which layer a page comes from in a multi-layer setup.
+ */
+export function getLayerReport(tree: RouteTree): LayerReportEntry[] {
+  const toReportFile = (file: RouteNodeFile): LayerReportFile =>
+    file.layer === undefined ? { file: file.path, priority: file.priority } : { file: file.path, layer: file.layer, priority: file.priority }
+
+  const entries: LayerReportEntry[] = []
+  walkTree(tree, (node) => {
+    for (const file of node.files) {
+      const shadowed = node['~shadowed']?.get(file['~dedupeKey']!) || []
+      entries.push({
+        relativePath: file.relativePath,
+        winner: toReportFile(file),
+        overridden: shadowed.map(toReportFile).reverse(),
+      })
+    }
+  })
+  return entries
+}
+
 // --- Internal helpers --------------------------------------------------------
 
+function findFile(tree: RouteTree, filePath: string): RouteNodeFile | undefined {
+  const node = tree['~fileIndex'].get(filePath) || tree['~shadowIndex'].get(filePath)
+  const shadowed = node?.['~shadowed'] ? [...node['~shadowed'].values()].flat() : []
+  return [...node?.files || [], ...shadowed].find(f => f.path === filePath)
+}
+
+/** Record a change for the running transaction; changes made by `buildTree` are not reported. */
+function emit(tree: RouteTree, event: TreeChangeEvent): void {
+  tree['~transaction']?.changes.push(event)
+}
+
 function isCompiledParsePath(options: any): options is CompiledParsePath {
   return typeof options === 'function' && options['~compiled'] === true
 }
 
-function tokenToString(token: { type: string, value: string }): string {
+function tokenToString(token: { type: string, value: string, matcher?: string, regexp?: string }): string {
+  const param = token.value + (token.matcher ? `=${token.matcher}` : '') + (token.regexp ? `(${token.regexp})` : '')
   switch (token.type) {
     case 'static': return token.value
-    case 'dynamic': return `[${token.value}]`
-    case 'optional': return `[[${token.value}]]`
-    case 'catchall': return `[...${token.value}]`
-    case 'repeatable': return `[${token.value}]+`
-    case 'optional-repeatable': return `[[${token.value}]]+`
+    case 'dynamic': return `[${param}]`
+    case 'optional': return `[[${param}]]`
+    case 'catchall': return `[...${param}]`
+    case 'repeatable': return `[${param}]+`
+    case 'optional-repeatable': return `[[${param}]]+`
     case 'group': return `(${token.value})`
     default: return token.value
   }
 }
 
 function segmentToKey(segment: ParsedPathSegment): string {
-  return segment.map(tokenToString).join('')
+  // Unnested segments get their own node so they don't attach to the parent layout
+  return segment.map(token => tokenToString(token) + (token.unnested ? '_' : '')).join('')
 }
 
 function reconstructRelativePath(parsedPath: ParsedPath): string {
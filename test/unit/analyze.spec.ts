@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeTree, buildTree } from '../../src'
+
+describe('analyzeTree', () => {
+  const analyze = (files: Parameters<typeof buildTree>[0], options: Parameters<typeof buildTree>[1] = {}) =>
+    analyzeTree(buildTree(files, { roots: ['pages/'], ...options }))
+
+  it('reports equivalent patterns with different param names', () => {
+    expect(analyze(['pages/index.vue', 'pages/[id].vue', 'pages/[slug].vue'])).toEqual([
+      { kind: 'equivalent', file: 'pages/[slug].vue', path: '/:slug()', shadowedBy: 'pages/[id].vue', example: '/1' },
+    ])
+    expect(analyze(['pages/[id(\\d+)].vue', 'pages/[n(\\d+)].vue', 'pages/[x].vue'])).toEqual([
+      { kind: 'equivalent', file: 'pages/[n(\\d+)].vue', path: '/:n(\\d+)', shadowedBy: 'pages/[id(\\d+)].vue', example: '/1' },
+    ])
+  })
+
+  it('reports routes shadowed by higher-ranked routes', () => {
+    expect(analyze(['pages/[slug].vue', 'pages/[id]/[[tab]].vue'])).toEqual([
+      { kind: 'shadowed', file: 'pages/[slug].vue', path: '/:slug()', shadowedBy: 'pages/[id]/[[tab]].vue', example: '/1' },
+    ])
+    expect(analyze(['pages/[n(\\d+)]+.vue', 'pages/[[o(\\d+)]]+/5.vue', 'pages/[[x]]/5.vue'])).toEqual([
+      { kind: 'shadowed', file: 'pages/[[o(\\d+)]]+/5.vue', path: '/:o(\\d+)*/5', shadowedBy: 'pages/[n(\\d+)]+.vue', example: '/5' },
+    ])
+  })
+
+  it('does not report routes that match URLs other routes do not', () => {
+    expect(analyze([
+      'pages/about.vue',
+      'pages/[id].vue',
+      'pages/[[opt]].vue',
+      'pages/[id]+.vue',
+      'pages/[...slug].vue',
+      'pages/users/[id(\\d+)].vue',
+      'pages/users/[name([a-z]+)].vue',
+      'pages/users/[id]/edit.vue',
+    ])).toEqual([])
+  })
+
+  it('reports files collapsed into the same route', () => {
+    expect(analyze(['pages/[...all].vue', 'pages/[[...all]].vue'])).toEqual([
+      { kind: 'equivalent', file: 'pages/[[...all]].vue', path: '/:all(.*)*', shadowedBy: 'pages/[...all].vue', example: '/' },
+    ])
+  })
+
+  it('ignores collapsed files that serve no route', () => {
+    expect(analyze(['app/@modal/login/page.tsx', 'app/@modal/login/page.jsx'], { roots: ['app/'], dialect: 'next' })).toEqual([])
+  })
+
+  it('ignores layer overrides', () => {
+    expect(analyze([
+      { path: 'layer/pages/about.vue', priority: 1 },
+      { path: 'app/pages/about.vue', priority: 0 },
+    ], { roots: ['app/pages/', 'layer/pages/'] })).toEqual([])
+  })
+
+  it('never reports routes against their ancestors', () => {
+    expect(analyze(['pages/users.vue', 'pages/users/index.vue', 'pages/users/[id].vue'])).toEqual([])
+  })
+
+  it('compares nested routes by their full paths', () => {
+    expect(analyze([
+      'pages/users.vue',
+      'pages/users/[id].vue',
+      'pages/users/[id]/edit.vue',
+      'pages/users/[slug]/edit.vue',
+    ])).toEqual([
+      { kind: 'equivalent', file: 'pages/users/[id]/edit.vue', path: '/users/:id()/edit', shadowedBy: 'pages/users/[slug]/edit.vue', example: '/users/1/edit' },
+    ])
+  })
+
+  it('compares segments mixing static text and params', () => {
+    expect(analyze(['pages/v[a].vue', 'pages/v[b].vue'])).toEqual([
+      { kind: 'equivalent', file: 'pages/v[b].vue', path: '/v:b()', shadowedBy: 'pages/v[a].vue', example: '/v1' },
+    ])
+    expect(analyze(['pages/v[a]-[[b]].vue', 'pages/v[c]-.vue', 'pages/[[a]][[b]].vue'])).toEqual([])
+    // Repeatable params in mixed segments aren't compared
+    expect(analyze(['pages/v[...a].vue', 'pages/v[...b].vue'])).toEqual([])
+  })
+
+  it('uses param matchers', () => {
+    expect(analyze(['pages/a/[id=int].vue', 'pages/a/[n=int].vue', 'pages/a/5.vue'], { matchers: { int: /^\d+$/ } })).toEqual([
+      { kind: 'equivalent', file: 'pages/a/[n=int].vue', path: '/a/:n(\\d+)', shadowedBy: 'pages/a/[id=int].vue', example: '/a/1' },
+    ])
+  })
+
+  it('leaves params no sample value satisfies as placeholders', () => {
+    expect(analyze(['pages/[a(foo)].vue', 'pages/[b(foo)].vue'])).toEqual([
+      { kind: 'equivalent', file: 'pages/[b(foo)].vue', path: '/:b(foo)', shadowedBy: 'pages/[a(foo)].vue', example: '/:b' },
+    ])
+  })
+})
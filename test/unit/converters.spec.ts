@@ -1,7 +1,10 @@
+import type { RouteRecordRaw } from 'vue-router'
+import type { ParamNameIssue, Rou3Route, ToRou3Issue, VueRoute } from '../../src'
 import { addRoute, createRouter, findRoute } from 'rou3'
 import { describe, expect, it } from 'vitest'
 import { createMemoryHistory, createRouter as createVueRouter } from 'vue-router'
-import { addFile, buildTree, compileParsePath, isPageNode, parsePath, parseSegment, removeFile, toRegExp, toRou3, toVueRouter4, toVueRouterPath, toVueRouterSegment, vueRouterToRou3, walkTree } from '../../src'
+import { addFile, analyzeTree, batch, buildTree, compileParsePath, createMatcher, getLayerReport, isPageNode, listFiles, matchFile, moveDirectory, onTreeChange, parsePath, parseSegment, removeDirectory, removeFile, renameFile, resolveFileRoute, toRegExp, toRou3, toVueRouter4, toVueRouterPath, toVueRouterSegment, vueRouterToRou3, walkTree } from '../../src'
+import { getVueRoutes } from '../../src/converters'
 
 /** buildTree shorthand — accepts raw strings */
 const tree = (paths: string[]) => buildTree(paths)
@@ -21,7 +24,7 @@ describe('rou3 support', () => {
   it('toRou3', () => {
     const result = Object.fromEntries(Object.entries(paths).map(([path, example]) => {
       const router = createRouter<{ value: string }>()
-      addRoute(router, 'GET', toRou3(tree([path]))[0].path, { value: example })
+      addRoute(router, 'GET', toRou3(tree([path])).routes[0].path, { value: example })
       const result = findRoute(router, 'GET', example)
       return [path, result?.params || result?.data.value]
     }))
@@ -50,7 +53,7 @@ describe('rou3 support', () => {
 
   it('supports optional parameters', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['users/[[id]].vue']))[0].path
+    const pattern = toRou3(tree(['users/[[id]].vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/users/:id?')
@@ -60,7 +63,7 @@ describe('rou3 support', () => {
 
   it('supports named parameters inside a single segment', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['articles/article-[slug].vue']))[0].path
+    const pattern = toRou3(tree(['articles/article-[slug].vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/articles/article-:slug')
@@ -70,7 +73,7 @@ describe('rou3 support', () => {
 
   it('supports mixed optional parameters', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['optional/prefix-[[opt]].vue']))[0].path
+    const pattern = toRou3(tree(['optional/prefix-[[opt]].vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/optional/prefix-:opt(.*)')
@@ -81,7 +84,7 @@ describe('rou3 support', () => {
 
   it('supports repeatable parameters', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['[slug]+.vue']))[0].path
+    const pattern = toRou3(tree(['[slug]+.vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/:slug+')
@@ -91,7 +94,7 @@ describe('rou3 support', () => {
 
   it('supports catchall parameters', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['[...slug].vue']))[0].path
+    const pattern = toRou3(tree(['[...slug].vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/:slug*')
@@ -101,7 +104,7 @@ describe('rou3 support', () => {
 
   it('supports nested catchall parameters with an empty tail', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['files/[...slug].vue']))[0].path
+    const pattern = toRou3(tree(['files/[...slug].vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/files/:slug*')
@@ -111,7 +114,7 @@ describe('rou3 support', () => {
 
   it('supports optional-repeatable parameters', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['[[slug]]+.vue']))[0].path
+    const pattern = toRou3(tree(['[[slug]]+.vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/:slug*')
@@ -120,12 +123,12 @@ describe('rou3 support', () => {
   })
 
   it('sanitizes dotted rou3 param names', () => {
-    expect(toRou3(tree(['[.].vue']))[0].path).toBe('/:_')
+    expect(toRou3(tree(['[.].vue'])).routes[0].path).toBe('/:_')
   })
 
   it('sanitizes leading digit rou3 param names', () => {
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['prefix-[123].vue']))[0].path
+    const pattern = toRou3(tree(['prefix-[123].vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toBe('/prefix-:_123')
@@ -142,7 +145,7 @@ describe('rou3 support', () => {
 
     for (const [file, [pattern, example]] of Object.entries(cases)) {
       const router = createRouter<{ value: string }>()
-      expect(toRou3(tree([file]))[0].path).toBe(pattern)
+      expect(toRou3(tree([file])).routes[0].path).toBe(pattern)
       addRoute(router, 'GET', pattern, { value: file })
       expect(findRoute(router, 'GET', example)?.data.value).toBe(file)
     }
@@ -151,7 +154,7 @@ describe('rou3 support', () => {
       file: 'static.vue',
       segments: [[{ type: 'static', value: 'test(name)' }]],
     }] as any)
-    const pattern = toRou3(t)[0].path
+    const pattern = toRou3(t).routes[0].path
     const router = createRouter<{ value: string }>()
     expect(pattern).toBe('/test\\(name\\)')
     addRoute(router, 'GET', pattern, { value: 'static.vue' })
@@ -168,34 +171,63 @@ describe('rou3 support', () => {
 
     for (const [file, [example, params]] of Object.entries(cases)) {
       const router = createRouter<{ value: string }>()
-      const pattern = toRou3(tree([file]))[0].path
+      const pattern = toRou3(tree([file])).routes[0].path
       addRoute(router, 'GET', pattern, { value: pattern })
 
       expect(findRoute(router, 'GET', example as string)?.params).toEqual(params)
     }
 
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(tree(['file+[slug].vue']))[0].path
+    const pattern = toRou3(tree(['file+[slug].vue'])).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
     expect(findRoute(router, 'GET', '/fileeeeeex')).toBeUndefined()
   })
 
-  it('throws for rou3 patterns that would over-match', () => {
-    expect(() => toRou3(tree(['foo*bar.vue']))).toThrow('cannot represent static segment "foo*bar"')
-    expect(() => toRou3(tree(['prefix-[slug]+.vue']))).toThrow('only supports repeatable parameters as their own segment')
-    expect(() => toRou3(tree(['[slug]+/suffix.vue']))).toThrow('only supports repeatable parameters at the end of a route')
-    expect(() => toRou3(tree(['prefix-[...slug].vue']))).toThrow('only supports catchall parameters as their own segment')
-    expect(() => toRou3(tree(['[...slug]/suffix.vue']))).toThrow('only supports catchall parameters at the end of a route')
-    expect(() => toRou3(tree(['prefix-[[slug]]+.vue']))).toThrow('only supports optional repeatable parameters as their own segment')
-    expect(() => toRou3(tree(['[[slug]]+/suffix.vue']))).toThrow('only supports optional repeatable parameters at the end of a route')
+  it('collapses rou3 patterns that would over-match', () => {
+    const cases = {
+      'foo*bar.vue': ['/**', 'rou3 treats `*` in static segment "foo*bar" as a wildcard'],
+      'prefix-[slug]+.vue': ['/**', 'rou3 only supports repeatable parameters as their own segment'],
+      'a/[slug]+/suffix.vue': ['/a/**', 'rou3 only supports repeatable parameters at the end of a route'],
+      'prefix-[...slug].vue': ['/**', 'rou3 only supports catchall parameters as their own segment'],
+      '[...slug]/suffix.vue': ['/**', 'rou3 only supports catchall parameters at the end of a route'],
+      'prefix-[[slug]]+.vue': ['/**', 'rou3 only supports optional repeatable parameters as their own segment'],
+      '[[slug]]+/suffix.vue': ['/**', 'rou3 only supports optional repeatable parameters at the end of a route'],
+    }
+    for (const [file, [path, reason]] of Object.entries(cases)) {
+      expect(toRou3(tree([file]))).toEqual({
+        routes: [{ path, file }],
+        issues: [expect.objectContaining({ type: 'collapsed', file, message: `Collapsed "${file}" into "${path}" because ${reason}; the pattern also matches nested paths` })],
+      })
+    }
+  })
+
+  it('keeps other routes when one cannot be represented', () => {
+    const t = tree(['[...slug]/edit.vue', 'about.vue', 'users/[id].vue'])
+    const { routes, issues } = toRou3(t)
+    expect(routes.map(r => r.path)).toEqual(['/**', '/about', '/users/:id'])
+    expect(issues).toEqual([{
+      type: 'collapsed',
+      file: '[...slug]/edit.vue',
+      param: 'slug',
+      message: 'Collapsed "[...slug]/edit.vue" into "/**" because rou3 only supports catchall parameters at the end of a route; the pattern also matches nested paths',
+    }])
+
+    const skipped = toRou3(t, { unsupported: 'skip' })
+    expect(skipped.routes.map(r => r.path)).toEqual(['/about', '/users/:id'])
+    expect(skipped.issues).toEqual([{
+      type: 'skipped',
+      file: '[...slug]/edit.vue',
+      param: 'slug',
+      message: 'Skipped "[...slug]/edit.vue" because rou3 only supports catchall parameters at the end of a route',
+    }])
   })
 
   it('should handle group-only segments', () => {
-    expect(toRou3(tree(['(group).vue']))[0].path).toEqual('/')
+    expect(toRou3(tree(['(group).vue'])).routes[0].path).toEqual('/')
   })
 
   it('should skip group tokens in mixed segments', () => {
-    expect(toRou3(tree(['(group)[slug].vue']))[0].path).toEqual('/:slug')
+    expect(toRou3(tree(['(group)[slug].vue'])).routes[0].path).toEqual('/:slug')
   })
 
   it('should use wildcard for dynamic tokens without a name', () => {
@@ -203,7 +235,7 @@ describe('rou3 support', () => {
       file: 'unnamed.vue',
       segments: [[{ type: 'dynamic', value: '' }]],
     }] as any)
-    expect(toRou3(t)[0].path).toEqual('/*')
+    expect(toRou3(t).routes[0].path).toEqual('/*')
   })
 
   it('should use wildcard for unnamed dynamic tokens inside a single segment', () => {
@@ -216,7 +248,7 @@ describe('rou3 support', () => {
       ]],
     }] as any)
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(t)[0].path
+    const pattern = toRou3(t).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toEqual('/file-*.png')
@@ -229,7 +261,7 @@ describe('rou3 support', () => {
       file: 'unnamed.vue',
       segments: [[{ type: 'optional', value: '' }]],
     }] as any)
-    expect(toRou3(t)[0].path).toEqual('/*')
+    expect(toRou3(t).routes[0].path).toEqual('/*')
   })
 
   it('should use wildcard for repeatable tokens without a name', () => {
@@ -238,7 +270,7 @@ describe('rou3 support', () => {
       segments: [[{ type: 'repeatable', value: '' }]],
     }] as any)
     const router = createRouter<{ value: string }>()
-    const pattern = toRou3(t)[0].path
+    const pattern = toRou3(t).routes[0].path
     addRoute(router, 'GET', pattern, { value: pattern })
 
     expect(pattern).toEqual('/**:_')
@@ -251,7 +283,7 @@ describe('rou3 support', () => {
       file: 'unnamed.vue',
       segments: [[{ type: 'catchall', value: '' }]],
     }] as any)
-    expect(toRou3(t)[0].path).toEqual('/**')
+    expect(toRou3(t).routes[0].path).toEqual('/**')
   })
 
   it('should use double wildcard for optional-repeatable tokens without a name', () => {
@@ -259,11 +291,11 @@ describe('rou3 support', () => {
       file: 'unnamed.vue',
       segments: [[{ type: 'optional-repeatable', value: '' }]],
     }] as any)
-    expect(toRou3(t)[0].path).toEqual('/**')
+    expect(toRou3(t).routes[0].path).toEqual('/**')
   })
 
   it('should handle empty segments', () => {
-    expect(toRou3(tree(['file//index.vue']))[0].path).toEqual('/file')
+    expect(toRou3(tree(['file//index.vue'])).routes[0].path).toEqual('/file')
   })
 })
 
@@ -394,6 +426,10 @@ describe('vueRouterToRou3', () => {
     expect(() => vueRouterToRou3('/x', { maxExpansions: 4.5 })).toThrow(TypeError)
   })
 
+  it('throws for static segments rou3 would read as wildcards', () => {
+    expect(() => vueRouterToRou3('/foo*bar')).toThrow('`vueRouterToRou3` cannot represent static segment "foo*bar"')
+  })
+
   it('can disable expansion', () => {
     expect(patterns('/:locale(de|fr)/account', { expand: false })).toEqual([
       '/:locale(de|fr)/account',
@@ -445,7 +481,7 @@ describe('regexp support', () => {
 
   it('toRegExp', () => {
     const result = Object.fromEntries(Object.entries(paths).map(([path, example]) => {
-      const regexpResult = toRegExp(tree([path]))[0]
+      const regexpResult = toRegExp(tree([path])).routes[0]
       const match = example.match(regexpResult.pattern)
       return [path, {
         regexp: regexpResult.pattern.toString(),
@@ -722,7 +758,7 @@ describe('vue-router support', () => {
 
 describe('toRegExp pattern matching', () => {
   it('should only match exact path patterns', () => {
-    const [result] = toRegExp(tree(['[slug].vue']))
+    const [result] = toRegExp(tree(['[slug].vue'])).routes
     expect('/file'.match(result.pattern)?.groups?.slug).toBe('file')
     expect('/test/thing'.match(result.pattern)).toBeFalsy()
     expect('file'.match(result.pattern)).toBeFalsy()
@@ -730,57 +766,57 @@ describe('toRegExp pattern matching', () => {
   })
 
   it('should properly match nested dynamic routes', () => {
-    const [result] = toRegExp(tree(['users/[id]/posts/[slug].vue']))
+    const [result] = toRegExp(tree(['users/[id]/posts/[slug].vue'])).routes
     expect('/users/abc/posts/world'.match(result.pattern)?.groups).toEqual({ id: 'abc', slug: 'world' })
     expect('/users/123'.match(result.pattern)).toBeFalsy()
     expect('/users/123/posts/hello/extra'.match(result.pattern)).toBeFalsy()
   })
 
   it('should handle optional parameters correctly', () => {
-    const [result] = toRegExp(tree(['products/[[category]].vue']))
+    const [result] = toRegExp(tree(['products/[[category]].vue'])).routes
     expect('/products/electronics'.match(result.pattern)?.groups?.category).toBe('electronics')
     expect('/products'.match(result.pattern)).toBeTruthy()
     expect('/products/electronics/phones'.match(result.pattern)).toBeFalsy()
   })
 
   it('should handle catchall routes correctly', () => {
-    const [result] = toRegExp(tree(['docs/[...slug].vue']))
+    const [result] = toRegExp(tree(['docs/[...slug].vue'])).routes
     expect('/docs/guide/getting-started'.match(result.pattern)?.groups?.slug).toBe('guide/getting-started')
     expect('/docs'.match(result.pattern)).toBeTruthy()
     expect('/guide/getting-started'.match(result.pattern)).toBeFalsy()
   })
 
   it('should handle repeatable parameters correctly', () => {
-    const [result] = toRegExp(tree(['posts/[slug]+.vue']))
+    const [result] = toRegExp(tree(['posts/[slug]+.vue'])).routes
     expect('/posts/hello/world/test'.match(result.pattern)?.groups?.slug).toBe('hello/world/test')
     expect('/posts'.match(result.pattern)).toBeFalsy()
   })
 
   it('should handle optional repeatable parameters correctly', () => {
-    const [result] = toRegExp(tree(['articles/[[slug]]+.vue']))
+    const [result] = toRegExp(tree(['articles/[[slug]]+.vue'])).routes
     expect('/articles/hello/world'.match(result.pattern)?.groups?.slug).toBe('hello/world')
     expect('/articles'.match(result.pattern)).toBeTruthy()
   })
 
   it('should handle group-only segments', () => {
-    const result = toRegExp(tree(['(group).vue']))
+    const result = toRegExp(tree(['(group).vue'])).routes
     expect(result[0].pattern.toString()).toBe('/^\\/?$/')
     expect(result[0].keys).toEqual([])
   })
 
   it('should skip group tokens in mixed segments', () => {
-    const [result] = toRegExp(tree(['(group)[slug].vue']))
+    const [result] = toRegExp(tree(['(group)[slug].vue'])).routes
     expect('/test'.match(result.pattern)?.groups?.slug).toBe('test')
     expect(result.keys).toEqual(['slug'])
   })
 
   it('should sanitize capture group names', () => {
-    expect(toRegExp(tree(['[1param].vue']))[0].keys).toEqual(['_1param'])
-    expect(toRegExp(tree(['[param.name].vue']))[0].keys).toEqual(['paramname'])
+    expect(toRegExp(tree(['[1param].vue'])).routes[0].keys).toEqual(['_1param'])
+    expect(toRegExp(tree(['[param.name].vue'])).routes[0].keys).toEqual(['paramname'])
   })
 
   it('should handle optional segments correctly', () => {
-    const result = toRegExp(tree(['optional/[[param]]/more.vue']))
+    const result = toRegExp(tree(['optional/[[param]]/more.vue'])).routes
     expect(result[0].pattern.toString()).toBe('/^\\/optional(?:\\/(?<param>[^/]*))?\\/more\\/?$/')
   })
 
@@ -864,6 +900,68 @@ describe('buildTree duplicate strategies', () => {
   })
 })
 
+describe('duplicate params', () => {
+  const files = ['pages/[id]/comments.vue', 'pages/[id]/comments/[id].vue']
+
+  it('throws by default', () => {
+    expect(() => buildTree(files, { roots: ['pages/'] })).toThrow(expect.objectContaining({
+      code: 'DUPLICATE_PARAM',
+      file: 'pages/[id]/comments/[id].vue',
+      start: 21,
+      end: 23,
+    }))
+  })
+
+  it('records an error diagnostic and leaves the file out in collect mode', () => {
+    const t = buildTree(files, { roots: ['pages/'], diagnostics: 'collect' })
+    expect(t.diagnostics).toEqual([expect.objectContaining({ severity: 'error', code: 'DUPLICATE_PARAM', range: { start: 21, end: 23 } })])
+    expect(listFiles(t.root).map(f => f.path)).toEqual(['pages/[id]/comments.vue'])
+  })
+
+  it('suffixes repeated params in every converter', () => {
+    const warnings: string[] = []
+    const t = buildTree(files, { roots: ['pages/'], duplicateParams: 'suffix', warn: message => warnings.push(message) })
+    expect(warnings).toEqual(['Duplicate param "id" in "pages/[id]/comments/[id].vue"; renamed to "id_1".'])
+    expect(t.diagnostics).toEqual([])
+
+    expect(toVueRouter4(t)[0].children[0]).toMatchObject({ path: ':id_1()', file: 'pages/[id]/comments/[id].vue' })
+    expect(toRou3(t).routes.map(r => r.path)).toEqual(['/:id/comments', '/:id/comments/:id_1'])
+    const regexp = toRegExp(t).routes[1]
+    expect(regexp.keys).toEqual(['id', 'id_1'])
+    expect('/1/comments/2'.match(regexp.pattern)!.groups).toEqual({ id: '1', id_1: '2' })
+  })
+
+  it('skips suffixes already in use and records warnings in collect mode', () => {
+    const t = buildTree(['[id]-[id]/[id_1]/[id].vue'], { duplicateParams: 'suffix', diagnostics: 'collect' })
+    expect(toRou3(t).routes.map(r => r.path)).toEqual(['/:id-:id_2/:id_1/:id_3'])
+    expect(t.diagnostics.map(d => [d.severity, d.code, d.range])).toEqual([
+      ['warning', 'DUPLICATE_PARAM', { start: 6, end: 8 }],
+      ['warning', 'DUPLICATE_PARAM', { start: 18, end: 20 }],
+    ])
+  })
+
+  it('does not mutate pre-parsed input', () => {
+    const parsed = parsePath(['[id]/[id].vue'])
+    addFile(buildTree(parsed, { duplicateParams: 'suffix' }), '[a]/[a].vue', { duplicateParams: 'suffix' })
+    expect(parsed[0].segments[1][0].value).toBe('id')
+  })
+
+  it('keeps the tree\'s strategy for addFile', () => {
+    const t = buildTree(files, { roots: ['pages/'], duplicateParams: 'suffix' })
+    addFile(t, 'pages/[x]/[x].vue', compileParsePath({ roots: ['pages/'] }))
+    addFile(t, 'pages/[y]/[y].vue', { roots: ['pages/'] })
+    expect(toRou3(t).routes.map(r => r.path)).toContain('/:x/:x_1')
+    expect(toRou3(t).routes.map(r => r.path)).toContain('/:y/:y_1')
+
+    // Options passed to addFile still take precedence
+    expect(() => addFile(t, 'pages/[z]/[z].vue', { roots: ['pages/'], duplicateParams: 'error' })).toThrow(expect.objectContaining({ code: 'DUPLICATE_PARAM' }))
+  })
+
+  it('treats static text matching a param name as unrelated', () => {
+    expect(toRou3(buildTree(['id/[id].vue'])).routes.map(r => r.path)).toEqual(['/id/:id'])
+  })
+})
+
 describe('pluggable route name generation', () => {
   it('uses default Nuxt-style names', () => {
     const routes = toVueRouter4(tree(['users/[id]/posts.vue']))
@@ -979,6 +1077,42 @@ describe('mode-aware emission', () => {
   })
 })
 
+describe('toRou3 modes and methods', () => {
+  const files = ['api/users/[id].get.ts', 'api/users/[id].post.ts', 'api/users/index.ts', 'api/(admin)/stats.get.ts']
+  const options = { roots: ['api/'], modes: ['get', 'post', 'client', 'server'] }
+
+  it('emits modes, groups and named views', () => {
+    expect(toRou3(buildTree([...files, 'api/index.vue', 'api/index@aside.vue'], options)).routes).toEqual([
+      { path: '/users/:id', file: 'api/users/[id].get.ts', params: { id: 'id' }, modes: ['get', 'post'] },
+      { path: '/users', file: 'api/users/index.ts' },
+      { path: '/stats', file: 'api/(admin)/stats.get.ts', groups: ['admin'], modes: ['get'] },
+      { path: '/', file: 'api/index.vue', components: { default: 'api/index.vue', aside: 'api/index@aside.vue' } },
+    ])
+  })
+
+  it('emits one entry per method with the methods option', () => {
+    const t = buildTree([...files.map(path => ({ path })), { path: 'api/users.client.ts', layer: 'app' }, { path: 'api/users.server.ts' }], options)
+    expect(toRou3(t, { methods: ['get', 'post'] }).routes).toEqual([
+      { method: '', path: '/users', file: 'api/users.client.ts', layer: 'app', modes: ['client'] },
+      { method: '', path: '/users', file: 'api/users.server.ts', modes: ['server'] },
+      { method: 'GET', path: '/users/:id', file: 'api/users/[id].get.ts', params: { id: 'id' }, modes: ['get'] },
+      { method: 'POST', path: '/users/:id', file: 'api/users/[id].post.ts', params: { id: 'id' }, modes: ['post'] },
+      { method: '', path: '/users', file: 'api/users/index.ts' },
+      { method: 'GET', path: '/stats', file: 'api/(admin)/stats.get.ts', groups: ['admin'], modes: ['get'] },
+    ])
+  })
+
+  it('feeds straight into rou3', () => {
+    const router = createRouter<Rou3Route>()
+    for (const route of toRou3(buildTree(files, options), { methods: ['get', 'post'] }).routes)
+      addRoute(router, route.method, route.path, route)
+    expect(findRoute(router, 'GET', '/users/1')?.data.file).toBe('api/users/[id].get.ts')
+    expect(findRoute(router, 'POST', '/users/1')?.data.file).toBe('api/users/[id].post.ts')
+    expect(findRoute(router, 'DELETE', '/users/1')).toBeUndefined()
+    expect(findRoute(router, 'DELETE', '/users')?.data.file).toBe('api/users/index.ts')
+  })
+})
+
 describe('named view emission', () => {
   it('emits components when named views exist', () => {
     const t = buildTree(parsePath(['index.vue', 'index@sidebar.vue']))
@@ -1040,6 +1174,321 @@ describe('named view emission', () => {
   })
 })
 
+describe('nesting opt-outs', () => {
+  const remix = (files: string[]) => buildTree(files, { roots: ['routes/'], dialect: 'remix' })
+
+  it('places unnested segments on their own node', () => {
+    const t = remix(['routes/concerts.tsx', 'routes/concerts.$city.tsx', 'routes/concerts_.mine.tsx'])
+    expect([...t.root.children.keys()]).toEqual(['concerts', 'concerts_'])
+  })
+
+  it('does not nest unnested routes inside the parent layout', () => {
+    const routes = toVueRouter4(remix(['routes/concerts.tsx', 'routes/concerts.$city.tsx', 'routes/concerts_.mine.tsx']))
+    const concerts = routes.find(r => r.file === 'routes/concerts.tsx')!
+    expect(concerts.children.map(r => r.file)).toEqual(['routes/concerts.$city.tsx'])
+    expect(routes.find(r => r.file === 'routes/concerts_.mine.tsx')).toMatchObject({ path: '/concerts/mine', name: 'concerts-mine' })
+  })
+
+  it('emits the same path for rou3', () => {
+    expect(toRou3(remix(['routes/concerts_.mine.tsx'])).routes).toEqual([{ path: '/concerts/mine', file: 'routes/concerts_.mine.tsx' }])
+  })
+
+  it('nests routes inside pathless layouts', () => {
+    const routes = toVueRouter4(remix(['routes/_auth.tsx', 'routes/_auth.login.tsx']))
+    expect(routes).toHaveLength(1)
+    expect(routes[0]).toMatchObject({ path: '/', file: 'routes/_auth.tsx', children: [{ path: 'login', file: 'routes/_auth.login.tsx' }] })
+  })
+
+  it('names pathless layouts after their group', () => {
+    const t = buildTree(['routes/__root.tsx', 'routes/_auth.tsx', 'routes/_auth/login.tsx'], { roots: ['routes/'], dialect: 'tanstack' })
+    const routes = toVueRouter4(t)
+    expect(routes).toHaveLength(1)
+    expect(routes[0].children.find(r => r.file === 'routes/_auth.tsx')).toMatchObject({ name: 'auth', children: [{ name: 'auth-login' }] })
+  })
+})
+
+describe('next.js slots', () => {
+  const next = (files: string[]) => buildTree(files, { roots: ['app/'], dialect: 'next' })
+
+  it('attaches @slot pages as named views of the page at the same path', () => {
+    expect(toVueRouter4(next(['app/dashboard/page.tsx', 'app/dashboard/@team/page.tsx']))).toEqual([{
+      path: '/dashboard',
+      file: 'app/dashboard/page.tsx',
+      name: 'dashboard',
+      components: { default: 'app/dashboard/page.tsx', team: 'app/dashboard/@team/page.tsx' },
+      children: [],
+    }])
+  })
+
+  it('emits no route for @slot pages without a default page', () => {
+    const t = next(['app/page.tsx', 'app/@modal/login/page.tsx', 'app/@modal/(.)photo/[id]/page.tsx', 'app/photo/[id]/page.tsx'])
+    expect(toVueRouter4(t).map(r => [r.file, r.name, r.components])).toEqual([
+      ['app/photo/[id]/page.tsx', 'photo-id', undefined],
+      ['app/page.tsx', 'index', undefined],
+    ])
+    expect(toRou3(t).routes.map(r => r.file)).toEqual(['app/page.tsx', 'app/photo/[id]/page.tsx'])
+    expect(t.skipped).toEqual([{ file: 'app/@modal/(.)photo/[id]/page.tsx', reason: 'not-a-route' }])
+  })
+})
+
+describe('root layouts', () => {
+  it('nests every top-level route inside a Next.js root layout', () => {
+    const t = buildTree(['app/layout.tsx', 'app/page.tsx', 'app/about/page.tsx', 'app/blog/layout.tsx', 'app/blog/page.tsx'], { roots: ['app/'], dialect: 'next' })
+    expect(toVueRouter4(t)).toEqual([{
+      path: '/',
+      file: 'app/layout.tsx',
+      children: [
+        { path: 'about', file: 'app/about/page.tsx', name: 'about', children: [] },
+        { path: 'blog', file: 'app/blog/layout.tsx', children: [{ path: '', file: 'app/blog/page.tsx', name: 'blog', children: [] }] },
+        { path: '', file: 'app/page.tsx', name: 'index', children: [] },
+      ],
+    }])
+  })
+
+  it('nests every route inside the TanStack root route', () => {
+    const t = buildTree(['routes/__root.tsx', 'routes/index.tsx', 'routes/posts.tsx', 'routes/posts/$postId.tsx'], { roots: ['routes/'], dialect: 'tanstack' })
+    expect(toVueRouter4(t)).toEqual([{
+      path: '/',
+      file: 'routes/__root.tsx',
+      children: [
+        { path: 'posts', file: 'routes/posts.tsx', children: [{ path: ':postId()', file: 'routes/posts/$postId.tsx', name: 'posts-postId', children: [] }], name: 'posts' },
+        { path: '', file: 'routes/index.tsx', name: 'index', children: [] },
+      ],
+    }])
+  })
+
+  it('nests every top-level route inside a SvelteKit root layout', () => {
+    const t = buildTree(['src/routes/+layout.svelte', 'src/routes/+page.svelte', 'src/routes/about/+page.svelte', 'src/routes/api/+server.ts'], { roots: ['src/routes/'], dialect: 'sveltekit' })
+    const routes = toVueRouter4(t)
+    expect(routes).toHaveLength(1)
+    expect(routes[0]).toMatchObject({ path: '/', file: 'src/routes/+layout.svelte' })
+    expect(routes[0].children.map(r => [r.path, r.file])).toEqual([
+      ['about', 'src/routes/about/+page.svelte'],
+      ['api', 'src/routes/api/+server.ts'],
+      ['', 'src/routes/+page.svelte'],
+    ])
+  })
+
+  it('does not treat files in groups only as root layouts', () => {
+    const routes = toVueRouter4(buildTree(['(group).vue', 'about.vue']))
+    expect(routes.map(r => r.file)).toEqual(['about.vue', '(group).vue'])
+  })
+})
+
+describe('group layouts', () => {
+  const toRouter = (routes: VueRoute[]) => {
+    const toRecords = (routes: VueRoute[]): RouteRecordRaw[] => routes.map(r => ({ path: r.path, name: r.name, component: {}, children: toRecords(r.children) }))
+    return createVueRouter({ history: createMemoryHistory(), routes: toRecords(routes) })
+  }
+  const matched = (router: ReturnType<typeof toRouter>, url: string) => router.resolve(url).matched.map(r => r.name ?? r.path)
+
+  it('nests Next.js routes inside the layout of their group', () => {
+    const t = buildTree(['app/layout.tsx', 'app/page.tsx', 'app/(marketing)/layout.tsx', 'app/(marketing)/about/page.tsx', 'app/(shop)/cart/page.tsx'], { roots: ['app/'], dialect: 'next' })
+    const routes = toVueRouter4(t)
+    expect(routes[0].children.map(r => [r.path, r.file, r.children.map(c => c.file)])).toEqual([
+      ['cart', 'app/(shop)/cart/page.tsx', []],
+      ['', 'app/page.tsx', []],
+      ['', 'app/(marketing)/layout.tsx', ['app/(marketing)/about/page.tsx']],
+    ])
+
+    const router = toRouter(routes)
+    expect(matched(router, '/')).toEqual(['/', 'index'])
+    expect(matched(router, '/about')).toEqual(['/', 'marketing', 'marketing-about'])
+    expect(matched(router, '/cart')).toEqual(['/', 'shop-cart'])
+  })
+
+  it('nests SvelteKit routes inside the layout of their group', () => {
+    const t = buildTree(['src/routes/(app)/+layout.svelte', 'src/routes/(app)/+page.svelte', 'src/routes/(app)/dashboard/+page.svelte'], { roots: ['src/routes/'], dialect: 'sveltekit' })
+    const router = toRouter(toVueRouter4(t))
+    expect(matched(router, '/')).toEqual(['/', 'app'])
+    expect(matched(router, '/dashboard')).toEqual(['/', 'app-dashboard'])
+  })
+
+  it('adds no path for pathless segments without a layout', () => {
+    const routes = toVueRouter4(buildTree(['routes/_auth.login.tsx'], { roots: ['routes/'], dialect: 'remix' }))
+    expect(routes.map(r => r.path)).toEqual(['/login'])
+  })
+})
+
+describe('param matchers', () => {
+  const matchers = { int: /^\d+$/, slug: '^[a-z-]+$', hex: '[\\da-f]+' }
+  const files = ['items/[id=int].vue', 'items/[slug=slug].vue', 'colors/[[c=hex]].vue', 'tags/[t=int]+.vue', 'files/[...path=slug].vue']
+
+  it('emits regexp constraints for vue-router', () => {
+    const routes = toVueRouter4(buildTree(files, { matchers }))
+    expect(Object.fromEntries(routes.map(r => [r.file, r.path]))).toEqual({
+      'items/[id=int].vue': '/items/:id(\\d+)',
+      'items/[slug=slug].vue': '/items/:slug([a-z-]+)',
+      'colors/[[c=hex]].vue': '/colors/:c([\\da-f]+)?',
+      'tags/[t=int]+.vue': '/tags/:t(\\d+)+',
+      'files/[...path=slug].vue': '/files/:path([a-z-]+)*',
+    })
+
+    const router = createVueRouter({ history: createMemoryHistory(), routes: routes.map(r => ({ path: r.path, name: r.name, component: {} })) })
+    expect(router.resolve('/items/42').name).toBe('items-id')
+    expect(router.resolve('/items/hello-world').name).toBe('items-slug')
+    expect(router.resolve('/items/a_b').matched).toEqual([])
+  })
+
+  it('ranks constrained params by their modifier, not their regexp', () => {
+    const routes = toVueRouter4(buildTree(['[id=int].vue', '[...slug].vue', 'about.vue'], { matchers: { int: '\\d+' } }))
+    expect(routes.map(r => r.path)).toEqual(['/about', '/:id(\\d+)', '/:slug(.*)*'])
+  })
+
+  it('passes the registry to toVueRouterSegment', () => {
+    expect(toVueRouterSegment(parseSegment('[id=int]'), { matchers })).toBe(':id(\\d+)')
+    expect(toVueRouterSegment(parseSegment('[...path=slug]'), { hasSucceeding: true, matchers })).toBe(':path([a-z-]+)*')
+    expect(toVueRouterSegment(parseSegment('[id=unknown]'), { matchers })).toBe(':id()')
+  })
+
+  it('emits rou3 constraints on plain and optional params', () => {
+    const routes = toRou3(buildTree(files, { matchers })).routes
+    expect(Object.fromEntries(routes.map(r => [r.file, r.path]))).toEqual({
+      'items/[id=int].vue': '/items/:id(\\d+)',
+      'items/[slug=slug].vue': '/items/:slug([a-z-]+)',
+      'colors/[[c=hex]].vue': '/colors/:c([\\da-f]+)?',
+      'tags/[t=int]+.vue': '/tags/:t+',
+      'files/[...path=slug].vue': '/files/:path*',
+    })
+
+    const router = createRouter<{ file: string }>()
+    for (const route of routes.slice(0, 2))
+      addRoute(router, 'GET', route.path, { file: route.file })
+    expect(findRoute(router, 'GET', '/items/42')?.data.file).toBe('items/[id=int].vue')
+    expect(findRoute(router, 'GET', '/items/hello')?.data.file).toBe('items/[slug=slug].vue')
+  })
+
+  it('skips rou3 constraints that rou3 cannot represent', () => {
+    const routes = toRou3(buildTree(['a/[x=slash].vue', 'b/[x=group].vue'], { matchers: { slash: '[^/]+', group: '(?:a|b)' } })).routes
+    expect(routes.map(r => r.path)).toEqual(['/a/:x', '/b/:x'])
+  })
+
+  it('emits constrained groups for toRegExp', () => {
+    const routes = toRegExp(buildTree(files, { matchers })).routes
+    const match = (file: string, path: string) => routes.find(r => r.file === file)!.pattern.exec(path)?.groups
+    expect(match('items/[id=int].vue', '/items/42')).toEqual({ id: '42' })
+    expect(match('items/[id=int].vue', '/items/abc')).toBeUndefined()
+    expect(match('colors/[[c=hex]].vue', '/colors')).toEqual({ c: undefined })
+    expect(match('colors/[[c=hex]].vue', '/colors/ff0')).toEqual({ c: 'ff0' })
+    expect(match('colors/[[c=hex]].vue', '/colors/red')).toBeUndefined()
+    expect(match('tags/[t=int]+.vue', '/tags/1/2')).toEqual({ t: '1/2' })
+    expect(match('tags/[t=int]+.vue', '/tags/1/x')).toBeUndefined()
+    expect(match('files/[...path=slug].vue', '/files/a/b-c')).toEqual({ path: 'a/b-c' })
+    expect(match('files/[...path=slug].vue', '/files')).toEqual({ path: undefined })
+    expect(match('files/[...path=slug].vue', '/files/a/1')).toBeUndefined()
+
+    const [optionalRepeatable] = toRegExp(buildTree(['[[n=int]]+.vue'], { matchers })).routes
+    expect(optionalRepeatable.pattern.exec('/1/2')?.groups).toEqual({ n: '1/2' })
+    expect(optionalRepeatable.pattern.exec('/a')).toBeNull()
+  })
+
+  it('leaves params unconstrained without a registry', () => {
+    expect(toRou3(tree(['[id=int].vue'])).routes[0].path).toBe('/:id')
+    expect(toVueRouter4(tree(['[id=int].vue']))[0].path).toBe('/:id()')
+  })
+
+  it('ignores inherited object keys', () => {
+    expect(toRou3(buildTree(['[id=constructor].vue'], { matchers })).routes[0].path).toBe('/:id')
+  })
+
+  it('warns about matchers missing from the registry', () => {
+    const warnings: string[] = []
+    const t = buildTree(['[id=int].vue', 'users/[name=word].vue'], { matchers, warn: message => warnings.push(message) })
+    expect(warnings).toEqual(['Unknown matcher "word" for param "name" in "users/[name=word].vue"; the param is left unconstrained.'])
+    expect(t.diagnostics).toEqual([])
+  })
+
+  it('reports unknown matchers as diagnostics in collect mode', () => {
+    const t = buildTree(['[id=int].vue'], { diagnostics: 'collect' })
+    expect(t.diagnostics).toEqual([{
+      severity: 'warning',
+      code: 'UNKNOWN_MATCHER',
+      file: '[id=int].vue',
+      range: { start: 4, end: 7 },
+      message: 'Unknown matcher "int" for param "id" in "[id=int].vue"; the param is left unconstrained.',
+      hint: 'Add `int` to the `matchers` option of `buildTree`.',
+    }])
+
+    addFile(t, 'users/[name=word].vue', compileParsePath({ diagnostics: 'collect' }))
+    expect(t.diagnostics.map(d => d.file)).toEqual(['[id=int].vue', 'users/[name=word].vue'])
+  })
+})
+
+describe('inline constraints', () => {
+  it('honours constraints in every converter', () => {
+    const t = tree(['users/[id(\\d+)].vue', 'users/[name].vue'])
+    expect(toVueRouter4(t).map(r => r.path)).toEqual(['/users/:id(\\d+)', '/users/:name()'])
+    expect(toRou3(t).routes.map(r => r.path)).toEqual(['/users/:id(\\d+)', '/users/:name'])
+    const [id] = toRegExp(t).routes
+    expect(id.pattern.exec('/users/42')?.groups).toEqual({ id: '42' })
+    expect(id.pattern.exec('/users/jo')).toBeNull()
+    expect(toVueRouterSegment(parseSegment('[id(\\d+)]'))).toBe(':id(\\d+)')
+  })
+
+  it('takes precedence over the matcher registry', () => {
+    const t = buildTree(['[id(\\d{2})].vue'], { matchers: { id: '\\d+' } })
+    expect(toRou3(t).routes[0].path).toBe('/:id(\\d{2})')
+  })
+
+  it('reports constraints that toRou3 cannot represent', () => {
+    const files = ['a/[x=pair].vue', 'b/[y=group].vue', 'c/[ids(\\d+)]+.vue', 'd/[...rest(.+)].vue', 'e/[[all(.+)]]+.vue', 'f/v-[[n(\\d+)]].vue', 'g/[[n(\\d+)]].vue']
+    const t = buildTree(files, { matchers: { pair: '\\w+/\\w+', group: '(?:a|b)' } })
+    const { routes, issues } = toRou3(t)
+    expect(routes.map(r => r.path)).toEqual(['/a/:x', '/b/:y', '/c/:ids+', '/d/:rest*', '/e/:all*', '/f/v-:n(.*)', '/g/:n(\\d+)?'])
+    expect(issues.map(issue => [issue.file, issue.param, issue.type])).toEqual([
+      ['a/[x=pair].vue', 'x', 'dropped-regexp'],
+      ['b/[y=group].vue', 'y', 'dropped-regexp'],
+      ['c/[ids(\\d+)]+.vue', 'ids', 'dropped-regexp'],
+      ['d/[...rest(.+)].vue', 'rest', 'dropped-regexp'],
+      ['e/[[all(.+)]]+.vue', 'all', 'dropped-regexp'],
+      ['f/v-[[n(\\d+)]].vue', 'n', 'dropped-regexp'],
+    ])
+    expect(issues[0].message).toBe('Dropped constraint "(\\w+/\\w+)" on param "x" in "a/[x=pair].vue" because rou3 cannot represent constraints containing "/" or parentheses')
+    expect(issues[2].message).toBe('Dropped constraint "(\\d+)" on repeatable param "ids" in "c/[ids(\\d+)]+.vue" because rou3 does not enforce it there')
+  })
+
+  it('returns no issues for faithful conversions', () => {
+    expect(toRou3(tree(['[id(\\d+)].vue', 'about.vue'])).issues).toEqual([])
+  })
+})
+
+describe('param name sanitization', () => {
+  it('maps param names to the keys each converter emits', () => {
+    const t = tree(['[user.id]/[1st].vue', '[id].vue', 'about.vue'])
+    expect(toRou3(t).routes.map(r => r.params)).toEqual([{ 'user.id': 'userid', '1st': '_1st' }, { id: 'id' }, undefined])
+    expect(toRegExp(t).routes.map(r => r.params)).toEqual([{ 'user.id': 'userid', '1st': '_1st' }, { id: 'id' }, undefined])
+    expect(toRegExp(tree(['[.1a].vue', '[.].vue'])).routes.map(r => r.keys)).toEqual([['_1a'], ['_']])
+    expect(toRegExp(tree(['[id].vue', 'about.vue'])).issues).toEqual([])
+  })
+
+  it('reports renamed params', () => {
+    const issues: ParamNameIssue[] = toRegExp(tree(['[user.id].vue'])).issues
+    expect(issues).toEqual([{
+      type: 'renamed-param',
+      file: '[user.id].vue',
+      param: 'user.id',
+      key: 'userid',
+      message: 'Param "user.id" in "[user.id].vue" is emitted as "userid" because capture group names cannot contain "." or start with a digit',
+    }])
+
+    const rou3Issues: ToRou3Issue[] = toRou3(tree(['[user.id].vue'])).issues
+    expect(rou3Issues[0].message).toBe('Param "user.id" in "[user.id].vue" is emitted as "userid" because rou3 param names cannot contain "." or start with a digit')
+  })
+
+  it('suffixes params that collide once sanitized', () => {
+    const t = tree(['[user.id]/[userid]/[a.b]/[ab]/[ab_1].vue'])
+    const { routes: [route], issues } = toRegExp(t)
+    expect(route.params).toEqual({ 'user.id': 'userid_1', 'userid': 'userid', 'a.b': 'ab_2', 'ab': 'ab', 'ab_1': 'ab_1' })
+    expect('/1/2/3/4/5'.match(route.pattern)!.groups).toEqual({ userid_1: '1', userid: '2', ab_2: '3', ab: '4', ab_1: '5' })
+    expect(issues.map(issue => [issue.type, issue.param, issue.key])).toEqual([
+      ['param-collision', 'user.id', 'userid_1'],
+      ['param-collision', 'a.b', 'ab_2'],
+    ])
+    expect(issues[0].message).toBe('Param "user.id" in "[user.id]/[userid]/[a.b]/[ab]/[ab_1].vue" clashes with "userid" once sanitized and is emitted as "userid_1"')
+    expect(toRou3(t).routes[0].path).toBe('/:userid_1/:userid/:ab_2/:ab/:ab_1')
+  })
+})
+
 describe('layer priority', () => {
   it('higher priority file wins on collision (lower number = higher priority)', () => {
     const t = buildTree([
@@ -1122,6 +1571,183 @@ describe('layer priority', () => {
   })
 })
 
+describe('shadowed files', () => {
+  const opts = { roots: ['pages/', 'layer/pages/'] }
+  const files = (t: ReturnType<typeof buildTree>) => toVueRouter4(t).map(r => r.file)
+
+  it('restores the shadowed file when the winner is removed', () => {
+    const t = buildTree([
+      { path: 'layer/pages/about.vue', priority: 1 },
+      { path: 'pages/about.vue', priority: 0 },
+    ], opts)
+    expect(files(t)).toEqual(['pages/about.vue'])
+
+    expect(removeFile(t, 'pages/about.vue')).toBe(true)
+    expect(files(t)).toEqual(['layer/pages/about.vue'])
+    expect(t['~fileIndex'].get('layer/pages/about.vue')).toBe(t.root.children.get('about'))
+    expect(t['~shadowIndex'].size).toBe(0)
+
+    expect(removeFile(t, 'layer/pages/about.vue')).toBe(true)
+    expect(t.root.children.size).toBe(0)
+  })
+
+  it('removes shadowed files without touching the winner', () => {
+    const t = buildTree([
+      { path: 'pages/about.vue', priority: 0 },
+      { path: 'layer/pages/about.vue', priority: 1 },
+      { path: 'base/pages/about.vue', priority: 2 },
+    ], { roots: [...opts.roots, 'base/pages/'] })
+    expect(removeFile(t, 'layer/pages/about.vue')).toBe(true)
+    expect(files(t)).toEqual(['pages/about.vue'])
+    expect(removeFile(t, 'base/pages/about.vue')).toBe(true)
+    expect(t.root.children.get('about')!['~shadowed']!.size).toBe(0)
+
+    removeFile(t, 'pages/about.vue')
+    expect(t.root.children.size).toBe(0)
+  })
+
+  it('promotes files in priority order, then insertion order', () => {
+    const input = [
+      { path: 'b/pages/about.vue', priority: 1 },
+      { path: 'pages/about.vue', priority: 0 },
+      { path: 'c/pages/about.vue', priority: 2 },
+      { path: 'b2/pages/about.vue', priority: 1 },
+    ]
+    const t = buildTree(input, { roots: ['pages/', 'b/pages/', 'b2/pages/', 'c/pages/'] })
+    const order: string[] = []
+    while (t.root.children.size) {
+      const file = toVueRouter4(t)[0].file!
+      order.push(file)
+      removeFile(t, file)
+    }
+    expect(order).toEqual(['pages/about.vue', 'b/pages/about.vue', 'b2/pages/about.vue', 'c/pages/about.vue'])
+  })
+
+  it('promotes the previous file under last-wins', () => {
+    const t = buildTree(['a/x.vue', 'b/x.vue', 'c/x.vue'], { roots: ['a/', 'b/', 'c/'], duplicateStrategy: 'last-wins' })
+    expect(files(t)).toEqual(['c/x.vue'])
+    removeFile(t, 'c/x.vue')
+    expect(files(t)).toEqual(['b/x.vue'])
+  })
+
+  it('converges to the tree buildTree would produce', () => {
+    const t = buildTree([], opts)
+    addFile(t, { path: 'pages/index.vue', priority: 0 }, opts)
+    addFile(t, { path: 'layer/pages/index.vue', priority: 1 }, opts)
+    addFile(t, { path: 'layer/pages/about.vue', priority: 1 }, opts)
+    addFile(t, { path: 'pages/about.vue', priority: 0 }, opts)
+    removeFile(t, 'pages/index.vue')
+
+    const fresh = buildTree([
+      { path: 'layer/pages/index.vue', priority: 1 },
+      { path: 'layer/pages/about.vue', priority: 1 },
+      { path: 'pages/about.vue', priority: 0 },
+    ], opts)
+    expect(toVueRouter4(t)).toEqual(toVueRouter4(fresh))
+  })
+
+  it('replaces a file that is added again', () => {
+    const t = buildTree(['about.vue', 'about.vue'])
+    expect(t.root.children.get('about')!['~shadowed']).toBeUndefined()
+    removeFile(t, 'about.vue')
+    expect(t.root.children.size).toBe(0)
+
+    // A shadowed file re-added with a higher priority takes over
+    const layered = buildTree([{ path: 'pages/about.vue', priority: 1 }, { path: 'layer/pages/about.vue', priority: 2 }], opts)
+    addFile(layered, { path: 'layer/pages/about.vue', priority: 0 }, opts)
+    expect(files(layered)).toEqual(['layer/pages/about.vue'])
+    expect(layered['~shadowIndex'].has('pages/about.vue')).toBe(true)
+  })
+
+  it('keeps the place of a file that is added again', () => {
+    const roots = { roots: ['pages/', 'layers/', 'other/'] }
+    const t = buildTree(['pages/x/[id].vue', 'layers/x/[id].vue', 'other/x/[id].vue'], roots)
+    const changes: string[] = []
+    onTreeChange(t, c => changes.push(...c.map(e => e.type)))
+
+    addFile(t, 'pages/x/[id].vue', roots)
+    expect(files(t)).toEqual(['pages/x/[id].vue'])
+    expect(changes).toEqual(['file-removed', 'file-added'])
+
+    // Shadowed files keep their place in line too
+    addFile(t, 'layers/x/[id].vue', roots)
+    removeFile(t, 'pages/x/[id].vue')
+    expect(files(t)).toEqual(['layers/x/[id].vue'])
+    expect(changes).toHaveLength(4)
+  })
+
+  it('finds shadowed files without the index', () => {
+    const t = buildTree([{ path: 'pages/about.vue', priority: 0 }, { path: 'layer/pages/about.vue', priority: 1 }], opts)
+    t['~shadowIndex'].clear()
+    expect(removeFile(t, 'layer/pages/about.vue')).toBe(true)
+    expect(removeFile(t, 'layer/pages/about.vue')).toBe(false)
+  })
+})
+
+describe('named layers', () => {
+  const input = [
+    { path: 'layers/base/pages/about.vue', priority: 1, layer: 'base' },
+    { path: 'layers/base/pages/blog/[slug].vue', priority: 1, layer: 'base' },
+    { path: 'pages/about.vue', priority: 0, layer: 'app' },
+    { path: 'layers/theme/pages/about.vue', priority: 2, layer: 'theme' },
+    { path: 'pages/index.vue' },
+  ]
+  const opts = { roots: ['pages/', 'layers/base/pages/', 'layers/theme/pages/'] }
+
+  it('records the layer on every converter output', () => {
+    const t = buildTree(input, opts)
+    expect(Object.fromEntries(toVueRouter4(t).map(r => [r.path, r.meta]))).toEqual({
+      '/': undefined,
+      '/about': { layer: 'app' },
+      '/blog/:slug()': { layer: 'base' },
+    })
+    expect(toRou3(t).routes).toEqual([
+      { path: '/about', file: 'pages/about.vue', layer: 'app' },
+      { path: '/blog/:slug', file: 'layers/base/pages/blog/[slug].vue', layer: 'base', params: { slug: 'slug' } },
+      { path: '/', file: 'pages/index.vue' },
+    ])
+    expect(toRegExp(t).routes.map(r => r.layer)).toEqual(['app', 'base', undefined])
+  })
+
+  it('keeps groups alongside the layer in meta', () => {
+    const t = buildTree([{ path: '(admin)/users.vue', layer: 'admin' }])
+    expect(toVueRouter4(t)[0].meta).toEqual({ groups: ['admin'], layer: 'admin' })
+  })
+
+  it('reports which layer won each route', () => {
+    const t = buildTree(input, opts)
+    expect(getLayerReport(t)).toEqual([
+      {
+        relativePath: 'about.vue',
+        winner: { file: 'pages/about.vue', layer: 'app', priority: 0 },
+        overridden: [
+          { file: 'layers/base/pages/about.vue', layer: 'base', priority: 1 },
+          { file: 'layers/theme/pages/about.vue', layer: 'theme', priority: 2 },
+        ],
+      },
+      {
+        relativePath: 'blog/[slug].vue',
+        winner: { file: 'layers/base/pages/blog/[slug].vue', layer: 'base', priority: 1 },
+        overridden: [],
+      },
+      {
+        relativePath: 'index.vue',
+        winner: { file: 'pages/index.vue', priority: 0 },
+        overridden: [],
+      },
+    ])
+  })
+
+  it('tracks layers through incremental updates', () => {
+    const t = buildTree(input, opts)
+    removeFile(t, 'pages/about.vue')
+    expect(toVueRouter4(t).find(r => r.path === '/about')!.meta).toEqual({ layer: 'base' })
+
+    addFile(t, { path: 'pages/about.vue', priority: 0, layer: 'app' }, opts)
+    expect(getLayerReport(t)[0].winner.layer).toBe('app')
+  })
+})
+
 describe('incremental addFile', () => {
   it('adds a file to an existing tree', () => {
     const t = buildTree(['about.vue'])
@@ -1238,6 +1864,235 @@ describe('incremental removeFile', () => {
   })
 })
 
+describe('tree change events', () => {
+  const opts = { roots: ['pages/', 'layer/pages/'] }
+  const record = (t: ReturnType<typeof buildTree>) => {
+    const events: string[] = []
+    const calls: number[] = []
+    const off = onTreeChange(t, (changes) => {
+      calls.push(changes.length)
+      for (const event of changes) {
+        events.push(event.type === 'node-pruned'
+          ? `${event.type} ${event.node.rawSegment}`
+          : event.type === 'file-replaced'
+            ? `${event.type} ${event.file.path} ${event.replaced.path}`
+            : `${event.type} ${event.file.path}`)
+      }
+    })
+    return { events, calls, off }
+  }
+
+  it('emits added, removed and pruned events', () => {
+    const t = buildTree(['pages/index.vue'], opts)
+    const { events } = record(t)
+    addFile(t, 'pages/users/[id].vue', opts)
+    removeFile(t, 'pages/users/[id].vue')
+    expect(events).toEqual([
+      'file-added pages/users/[id].vue',
+      'file-removed pages/users/[id].vue',
+      'node-pruned [id]',
+      'node-pruned users',
+    ])
+  })
+
+  it('emits replaced and restored files for layers', () => {
+    const t = buildTree([{ path: 'layer/pages/about.vue', priority: 1 }], opts)
+    const { events } = record(t)
+    addFile(t, { path: 'pages/about.vue', priority: 0 }, opts)
+    // Losing files are not reported
+    addFile(t, { path: 'base/about.vue', priority: 2 }, { roots: ['base/'] })
+    removeFile(t, 'base/about.vue')
+    removeFile(t, 'pages/about.vue')
+    expect(events).toEqual([
+      'file-replaced pages/about.vue layer/pages/about.vue',
+      'file-removed pages/about.vue',
+      'file-added layer/pages/about.vue',
+    ])
+  })
+
+  it('supports several independent listeners and unsubscribing', () => {
+    const t = buildTree(['pages/index.vue'], opts)
+    const first = record(t)
+    const second = record(t)
+    addFile(t, 'pages/about.vue', opts)
+    first.off()
+    removeFile(t, 'pages/about.vue')
+    expect(first.events).toEqual(['file-added pages/about.vue'])
+    expect(second.events).toEqual(['file-added pages/about.vue', 'file-removed pages/about.vue', 'node-pruned about'])
+    expect(second.calls).toEqual([1, 2])
+  })
+
+  it('does not call listeners for calls that change nothing', () => {
+    const t = buildTree(['pages/index.vue'], opts)
+    const { calls } = record(t)
+    removeFile(t, 'pages/missing.vue')
+    addFile(t, 'pages/index.spec.ts', { ...opts, ignore: ['*.spec.ts'] })
+    expect(calls).toEqual([])
+  })
+})
+
+describe('renameFile', () => {
+  const opts = { roots: ['pages/', 'layer/pages/'] }
+
+  it('renames a file without pruning shared ancestors', () => {
+    const t = buildTree(['pages/users/[id]/index.vue', 'pages/index.vue'], opts)
+    const users = t.root.children.get('users')!
+    const changes: string[] = []
+    onTreeChange(t, c => changes.push(...c.map(e => e.type)))
+
+    expect(renameFile(t, 'pages/users/[id]/index.vue', 'pages/users/[id]/profile.vue', opts)).toBe(true)
+    expect(t.root.children.get('users')).toBe(users)
+    expect(toVueRouter4(t).map(r => r.path).sort()).toEqual(['/', '/users/:id()/profile'])
+    expect(changes).toEqual(['file-removed', 'file-added', 'node-pruned'])
+  })
+
+  it('keeps the priority and layer of the file', () => {
+    const t = buildTree([
+      { path: 'pages/about.vue', priority: 0, layer: 'app' },
+      { path: 'layer/pages/about.vue', priority: 1, layer: 'base' },
+    ], opts)
+    renameFile(t, 'layer/pages/about.vue', 'layer/pages/contact.vue', opts)
+    expect(toRou3(t).routes).toEqual([
+      { path: '/about', file: 'pages/about.vue', layer: 'app' },
+      { path: '/contact', file: 'layer/pages/contact.vue', layer: 'base' },
+    ])
+  })
+
+  it('leaves the tree unchanged when the old file is unknown', () => {
+    const t = buildTree(['pages/index.vue'], opts)
+    const changes: string[] = []
+    onTreeChange(t, c => changes.push(...c.map(e => e.type)))
+    expect(renameFile(t, 'pages/draft.md', 'pages/about.vue', opts)).toBe(false)
+    expect(t['~fileIndex'].has('pages/about.vue')).toBe(false)
+    expect(changes).toEqual([])
+  })
+
+  it('renames skipped files', () => {
+    const t = buildTree(['pages/_draft.vue'], { ...opts, ignore: ['_*'] })
+    expect(renameFile(t, 'pages/_draft.vue', 'pages/draft.vue', { ...opts, ignore: ['_*'] })).toBe(true)
+    expect(t.skipped).toEqual([])
+    expect(t['~fileIndex'].has('pages/draft.vue')).toBe(true)
+  })
+})
+
+describe('batch', () => {
+  it('delivers all changes to listeners at once', () => {
+    const t = buildTree(['a.vue', 'b.vue'])
+    const calls: string[][] = []
+    onTreeChange(t, changes => calls.push(changes.map(c => c.type)))
+
+    const result = batch(t, () => {
+      removeFile(t, 'a.vue')
+      addFile(t, 'c.vue')
+      batch(t, () => removeFile(t, 'b.vue'))
+      return 'done'
+    })
+    expect(result).toBe('done')
+    expect(calls).toEqual([['file-removed', 'file-added', 'file-removed', 'node-pruned', 'node-pruned']])
+    expect(toVueRouter4(t).map(r => r.path)).toEqual(['/c'])
+  })
+
+  it('prunes nodes once at the end', () => {
+    const t = buildTree(['users/[id]/index.vue', 'users/[id]/edit.vue'])
+    const id = t.root.children.get('users')!.children.get('[id]')!
+    const pruned: string[] = []
+    onTreeChange(t, changes => pruned.push(...changes.filter(c => c.type === 'node-pruned').map(c => c.node.rawSegment)))
+
+    batch(t, () => {
+      removeFile(t, 'users/[id]/index.vue')
+      removeFile(t, 'users/[id]/edit.vue')
+      addFile(t, 'users/[id]/index.vue')
+    })
+    expect(t.root.children.get('users')!.children.get('[id]')).toBe(id)
+    expect(pruned).toEqual(['edit'])
+
+    batch(t, () => {
+      removeFile(t, 'users/[id]/index.vue')
+    })
+    expect(pruned).toEqual(['edit', '', '[id]', 'users'])
+
+    // A layout pruned together with its last child is reported once
+    addFile(t, 'users.vue')
+    addFile(t, 'users/index.vue')
+    batch(t, () => {
+      removeFile(t, 'users/index.vue')
+      removeFile(t, 'users.vue')
+    })
+    expect(pruned.slice(4)).toEqual(['', 'users'])
+    expect(t.root.children.size).toBe(0)
+  })
+
+  it('delivers changes made before an error', () => {
+    const t = buildTree(['a.vue', 'users/index.vue'])
+    const calls: string[][] = []
+    onTreeChange(t, changes => calls.push(changes.map(c => c.type)))
+    expect(() => batch(t, () => {
+      addFile(t, 'b.vue')
+      removeFile(t, 'users/index.vue')
+      throw new Error('boom')
+    })).toThrow('boom')
+    expect(calls).toEqual([['file-added', 'file-removed', 'node-pruned', 'node-pruned']])
+    expect(t['~transaction']).toBeUndefined()
+
+    // The changes stay in the tree, and empty nodes are still pruned
+    expect(toVueRouter4(t).map(r => r.path)).toEqual(['/a', '/b'])
+    expect(t.root.children.has('users')).toBe(false)
+  })
+})
+
+describe('directory operations', () => {
+  const opts = { roots: ['pages/', 'layer/pages/'], diagnostics: 'collect' as const, ignore: ['*.md'] }
+  const input = [
+    { path: 'pages/index.vue', priority: 0 },
+    { path: 'pages/users.vue', priority: 0 },
+    { path: 'pages/users/index.vue', priority: 0 },
+    { path: 'pages/users/[id].vue', priority: 0, layer: 'app' },
+    { path: 'pages/users/README.md', priority: 0 },
+    { path: 'pages/users/[bad.vue', priority: 0 },
+    { path: 'pages/users-old.vue', priority: 0 },
+    { path: 'layer/pages/users/[id].vue', priority: 1, layer: 'base' },
+  ]
+
+  it('removes every file under a directory', () => {
+    const t = buildTree(input, opts)
+    const changes: number[] = []
+    onTreeChange(t, c => changes.push(c.length))
+
+    expect(removeDirectory(t, 'pages/users')).toEqual(['pages/users/index.vue', 'pages/users/[id].vue'])
+    expect(listFiles(t.root).map(f => f.path)).toEqual(['pages/index.vue', 'pages/users.vue', 'layer/pages/users/[id].vue', 'pages/users-old.vue'])
+    expect(t.diagnostics).toEqual([])
+    expect(t.skipped).toEqual([])
+    expect(changes).toHaveLength(1)
+
+    expect(removeDirectory(t, 'layer/pages/')).toEqual(['layer/pages/users/[id].vue'])
+    expect([...t.root.children.keys()]).toEqual(['', 'users', 'users-old'])
+    expect(t.root.children.get('users')!.children.size).toBe(0)
+  })
+
+  it('moves a directory keeping priorities and layers', () => {
+    const t = buildTree(input, opts)
+    const moved = moveDirectory(t, 'pages/users/', 'pages/members', opts)
+    expect(moved.sort()).toEqual(['pages/members/README.md', 'pages/members/[bad.vue', 'pages/members/[id].vue', 'pages/members/index.vue'])
+
+    expect(toRou3(t).routes.map(r => [r.path, r.layer])).toEqual([
+      ['/', undefined],
+      ['/users', undefined],
+      ['/users/:id', 'base'],
+      ['/users-old', undefined],
+      ['/members', undefined],
+      ['/members/:id', 'app'],
+    ])
+    expect(t.diagnostics.map(d => d.file)).toEqual(['pages/members/[bad.vue'])
+    expect(t.skipped.map(d => d.file)).toEqual(['pages/members/README.md'])
+    expect(getLayerReport(t).find(e => e.winner.file === 'pages/members/[id].vue')!.winner.priority).toBe(0)
+  })
+
+  it('lists files under a node', () => {
+    const t = buildTree(input, opts)
+    expect(listFiles(t.root.children.get('users')!).map(f => f.path)).toEqual(['pages/users.vue', 'pages/users/index.vue', 'pages/users/[id].vue'])
+  })
+})
+
 describe('toVueRouterSegment', () => {
   it('converts static tokens', () => {
     expect(toVueRouterSegment(parseSegment('about'))).toBe('about')
@@ -1419,6 +2274,10 @@ describe('toVueRouter4 caching', () => {
 
     const second = toVueRouter4(t, { getRouteName: raw => raw.toUpperCase() })
     expect(second[0].name).toBe('ABOUT')
+
+    // A different name generator is a different option
+    const third = toVueRouter4(t, { getRouteName: raw => `page-${raw}` })
+    expect(third[0].name).toBe('page-about')
   })
 
   it('clones children deeply', () => {
@@ -1688,6 +2547,102 @@ describe('removeFile dfs fallback', () => {
   })
 })
 
+describe('diagnostics collect mode', () => {
+  it('skips bad files in buildTree and records diagnostics on the tree', () => {
+    const t = buildTree(['pages/index.vue', 'pages/[id.vue', 'pages/about.vue'], { roots: ['pages/'], diagnostics: 'collect' })
+    expect(toVueRouter4(t).map(r => r.file).sort()).toEqual(['pages/about.vue', 'pages/index.vue'])
+    expect(t.diagnostics).toHaveLength(1)
+    expect(t.diagnostics[0]).toMatchObject({ severity: 'error', code: 'UNFINISHED_PARAM', file: 'pages/[id.vue' })
+  })
+
+  it('keeps priorities aligned when InputFiles are skipped', () => {
+    const t = buildTree([
+      { path: 'layer/[bad.vue', priority: 2 },
+      { path: 'layer/about.vue', priority: 1 },
+      { path: 'about.vue', priority: 0 },
+    ], { roots: ['layer/'], diagnostics: 'collect' })
+    expect(toVueRouter4(t)[0].file).toBe('about.vue')
+    expect(t.diagnostics.map(d => d.file)).toEqual(['layer/[bad.vue'])
+  })
+
+  it('records duplicate files as diagnostics under the error strategy', () => {
+    const t = buildTree(['a.vue', 'a.vue'], { duplicateStrategy: 'error', diagnostics: 'collect' })
+    expect(t.diagnostics).toEqual([expect.objectContaining({ code: 'DUPLICATE_FILE', range: { start: 0, end: 5 } })])
+
+    const parsed = buildTree(parsePath(['b.vue', 'b.vue']), { duplicateStrategy: 'error', diagnostics: 'collect' })
+    expect(parsed.diagnostics).toHaveLength(1)
+  })
+
+  it('leaves diagnostics empty and throws in the default mode', () => {
+    expect(buildTree(['a.vue']).diagnostics).toEqual([])
+    expect(() => buildTree(['[a.vue'])).toThrow('Unfinished param')
+  })
+
+  it('rethrows unexpected errors while inserting', () => {
+    expect(() => buildTree([{ file: 'x.vue', segments: [null] }] as any, { diagnostics: 'collect' })).toThrow(TypeError)
+  })
+
+  it('replaces diagnostics for a file on addFile and removeFile', () => {
+    const opts = { diagnostics: 'collect' as const }
+    const t = buildTree(['about.vue', '[].vue'], opts)
+    addFile(t, 'users/[id.vue', opts)
+    expect(t.diagnostics.map(d => d.file)).toEqual(['[].vue', 'users/[id.vue'])
+    expect(toVueRouter4(t)).toHaveLength(1)
+
+    // Re-adding the same file replaces its diagnostics rather than piling up
+    addFile(t, 'users/[id.vue', opts)
+    expect(t.diagnostics).toHaveLength(2)
+    removeFile(t, 'users/[id.vue')
+    expect(t.diagnostics.map(d => d.file)).toEqual(['[].vue'])
+
+    addFile(t, 'users/[id].vue', opts)
+    expect(t.diagnostics).toHaveLength(1)
+    expect(toVueRouter4(t)).toHaveLength(2)
+  })
+
+  it('records diagnostics when addFile receives a compiled parser', () => {
+    const parse = compileParsePath({ diagnostics: 'collect' })
+    const t = buildTree(['about.vue'])
+    addFile(t, '[].vue', parse)
+    expect(t.diagnostics).toEqual([expect.objectContaining({ code: 'EMPTY_PARAM', file: '[].vue' })])
+  })
+})
+
+describe('skipped files', () => {
+  it('records ignored files with the matching pattern', () => {
+    const isDraft = (filePath: string) => filePath.endsWith('.draft.vue')
+    const t = buildTree(['pages/index.vue', 'pages/index.spec.ts', 'pages/about.draft.vue'], { roots: ['pages/'], ignore: ['*.spec.ts', isDraft] })
+    expect(toVueRouter4(t).map(r => r.file)).toEqual(['pages/index.vue'])
+    expect(t.skipped).toEqual([
+      { file: 'pages/index.spec.ts', reason: 'ignored', pattern: '*.spec.ts' },
+      { file: 'pages/about.draft.vue', reason: 'ignored', pattern: undefined },
+    ])
+  })
+
+  it('records files that are not routes in the dialect', () => {
+    const t = buildTree(['app/page.tsx', 'app/loading.tsx'], { roots: ['app/'], dialect: 'next' })
+    expect(t.skipped).toEqual([{ file: 'app/loading.tsx', reason: 'not-a-route' }])
+    expect(buildTree(['about.vue']).skipped).toEqual([])
+  })
+
+  it('replaces skipped entries for a file on addFile and removeFile', () => {
+    const opts = { ignore: ['_*'] }
+    const t = buildTree(['_utils.ts'], opts)
+    addFile(t, '_utils.ts', compileParsePath(opts))
+    expect(t.skipped).toHaveLength(1)
+
+    addFile(t, 'about.vue', opts)
+    addFile(t, '_hidden.vue', opts)
+    expect(t.skipped.map(s => s.file)).toEqual(['_utils.ts', '_hidden.vue'])
+    removeFile(t, '_utils.ts')
+    expect(t.skipped.map(s => s.file)).toEqual(['_hidden.vue'])
+
+    addFile(t, '_hidden.vue')
+    expect(t.skipped).toEqual([])
+    expect(toVueRouter4(t).map(r => r.path)).toEqual(['/_hidden', '/about'])
+  })
+})
+
 describe('dirty flag', () => {
   it('tree starts dirty after buildTree', () => {
     const t = buildTree(['about.vue'])
@@ -1716,6 +2671,30 @@ describe('dirty flag', () => {
     expect(t['~dirty']).toBe(true)
   })
 
+  it('read-only helpers leave the dirty flag alone', () => {
+    const t = buildTree(['about.vue'])
+    toVueRouter4(t)
+    addFile(t, 'users/[id].vue')
+    expect(resolveFileRoute(t, 'users/[id].vue')!.path).toBe('/users/:id()')
+    expect(matchFile(t, '/users/1')!.file.path).toBe('users/[id].vue')
+    expect(createMatcher(t).match('/about')!.route.file).toBe('about.vue')
+    expect(analyzeTree(t)).toEqual([])
+    expect(t['~dirty']).toBe(true)
+  })
+
+  it('keeps the routes of read-only helpers apart from the toVueRouter4 cache', () => {
+    const t = buildTree(['about.vue'])
+    const getRouteName = (name: string) => `app-${name}`
+    const routes = getVueRoutes(t, { getRouteName })
+    toVueRouter4(t, { attrs: { mode: ['client'] } })
+    toVueRouter4(t, { getRouteName: name => name })
+    expect(getVueRoutes(t, { getRouteName })).toBe(routes)
+    expect(getVueRoutes(t)).not.toBe(routes)
+
+    addFile(t, 'contact.vue')
+    expect(getVueRoutes(t, { getRouteName })).not.toBe(routes)
+  })
+
   it('removeFile does not set dirty when file not found', () => {
     const t = buildTree(['about.vue'])
     toVueRouter4(t)
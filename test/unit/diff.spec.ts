@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { addFile, buildTree, deserializeTree, diffTrees, removeFile, serializeTree, toVueRouter4 } from '../../src'
+
+const opts = { roots: ['pages/'], modes: ['client', 'server'] }
+
+describe('diffTrees', () => {
+  it('reports no changes for identical trees', () => {
+    const tree = buildTree(['pages/index.vue', 'pages/users.vue', 'pages/users/index.vue', 'pages/users/[id].vue'], opts)
+    expect(diffTrees(tree, deserializeTree(serializeTree(tree)))).toEqual([])
+  })
+
+  it('reports added and removed routes', () => {
+    const tree = buildTree(['pages/index.vue', 'pages/about.vue'], opts)
+    const before = toVueRouter4(tree)
+    removeFile(tree, 'pages/about.vue')
+    addFile(tree, 'pages/contact.vue', opts)
+
+    expect(diffTrees(before, tree)).toEqual([
+      { type: 'added', file: 'pages/contact.vue', after: { file: 'pages/contact.vue', path: '/contact', name: 'contact' } },
+      { type: 'removed', file: 'pages/about.vue', before: { file: 'pages/about.vue', path: '/about', name: 'about' } },
+    ])
+  })
+
+  it('reports re-parenting when a layout is added', () => {
+    const tree = buildTree(['pages/users/[id].vue'], opts)
+    const before = toVueRouter4(tree)
+    addFile(tree, 'pages/users.vue', opts)
+
+    expect(diffTrees(before, tree)).toEqual([
+      { type: 'added', file: 'pages/users.vue', after: { file: 'pages/users.vue', path: '/users', name: 'users' } },
+      {
+        type: 'changed',
+        file: 'pages/users/[id].vue',
+        before: { file: 'pages/users/[id].vue', path: '/users/:id()', name: 'users-id' },
+        after: { file: 'pages/users/[id].vue', path: '/users/:id()', name: 'users-id', parent: 'pages/users.vue' },
+        changes: ['parent'],
+      },
+    ])
+  })
+
+  it('reports path and name changes', () => {
+    const files = ['pages/users/index.vue', 'pages/users/[id].vue']
+    const before = buildTree(files, opts)
+    expect(diffTrees(before, buildTree(files)).map(c => c.changes)).toEqual([['path', 'name'], ['path', 'name']])
+
+    // Routes emitted earlier keep their names; trees are emitted with `getRouteName`
+    const routes = toVueRouter4(before)
+    expect(diffTrees(routes, before, { getRouteName: name => `route:${name}` })).toEqual([
+      expect.objectContaining({ file: 'pages/users/[id].vue', changes: ['name'] }),
+      expect.objectContaining({ file: 'pages/users/index.vue', changes: ['name'], after: expect.objectContaining({ name: 'route:users/index' }) }),
+    ])
+  })
+
+  it('reports named view and mode changes', () => {
+    const tree = buildTree(['pages/index.vue', 'pages/about.vue'], opts)
+    const before = toVueRouter4(tree)
+    addFile(tree, 'pages/index@sidebar.vue', opts)
+    addFile(tree, 'pages/about.client.vue', opts)
+
+    expect(diffTrees(before, tree).map(c => [c.file, c.changes])).toEqual([
+      ['pages/about.vue', ['modes']],
+      ['pages/index.vue', ['views']],
+    ])
+  })
+})
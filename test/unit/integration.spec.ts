@@ -1,4 +1,5 @@
-import { describe, it } from 'vitest'
+import { describe, expect, it } from 'vitest'
+import { buildTree, parsePath, toRou3 } from '../../src'
 
 describe('nuxt routing', () => {
   const _staticExamples = {
@@ -23,34 +24,48 @@ describe('nuxt routing', () => {
 })
 
 describe('sveltekit routing', () => {
-  const _staticExamples = {
-    '+page.svelte': '/',
-    'admin/+page.svelte': '/admin',
+  const staticExamples = {
+    'src/routes/+page.svelte': '/',
+    'src/routes/admin/+page.svelte': '/admin',
   }
-  const _dynamicExamples = {
-    'blog/[slug]/+page.svelte': [[{ slug: 'foo' }, '/blog/foo']],
+  const dynamicExamples = {
+    'src/routes/blog/[slug]/+page.svelte': '/blog/:slug',
+    'src/routes/items/[id=int]/+page.svelte': '/items/:id',
+    'src/routes/[[lang]]/about/+page.svelte': '/:lang?/about',
+    'src/routes/files/[...path]/+page.svelte': '/files/:path*',
   }
-  it.todo('should serialise examples to routes', () => {})
+  const examples: Record<string, string> = { ...staticExamples, ...dynamicExamples }
+
+  it('should serialise examples to routes', () => {
+    const routes = toRou3(buildTree(Object.keys(examples), { roots: ['src/routes/'], dialect: 'sveltekit' })).routes
+    expect(Object.fromEntries(routes.map(r => [r.file, r.path]))).toEqual(examples)
+  })
 })
 
 describe('next.js app directory routing', () => {
   // examples of Next.js fs routing
-  const _staticExamples = {
+  const staticExamples = {
     'app/page.tsx': '/',
     'app/admin/page.tsx': '/admin',
     'app/admin/users/page.tsx': '/admin/users',
     'app/admin/settings/page.tsx': '/admin/settings',
     'app/admin/settings/profile/page.tsx': '/admin/settings/profile',
   }
-  const _dynamicExamples = {
-    'app/user/[userId]/page.tsx': [[{ userId: 'foo' }, '/user/foo']],
-    'app/post/[slug]/page.tsx': [[{ slug: 'foo' }, '/post/foo']],
-    'app/post/[...slug]/page.tsx': [
-      [{}, '/post'],
-      [{ slug: ['foo'] }, '/post/foo'],
-      [{ slug: ['foo', 'bar'] }, '/post/foo/bar'],
-    ],
+  const dynamicExamples = {
+    'app/user/[userId]/page.tsx': '/user/:userId',
+    'app/post/[slug]/page.tsx': '/post/:slug',
+    'app/post/[...slug]/page.tsx': '/post/:slug+',
+    'app/docs/[[...slug]]/page.tsx': '/docs/:slug*',
   }
-  it.todo('should parse examples', () => {})
-  it.todo('should serialise examples to routes', () => {})
+  const examples: Record<string, string> = { ...staticExamples, ...dynamicExamples }
+
+  it('should parse examples', () => {
+    const parsed = parsePath(Object.keys(examples), { roots: ['app/'], dialect: 'next' })
+    expect(parsed.map(p => p.file)).toEqual(Object.keys(examples))
+  })
+
+  it('should serialise examples to routes', () => {
+    const routes = toRou3(buildTree(Object.keys(examples), { roots: ['app/'], dialect: 'next' })).routes
+    expect(Object.fromEntries(routes.map(r => [r.file, r.path]))).toEqual(examples)
+  })
 })
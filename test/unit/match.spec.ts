@@ -0,0 +1,242 @@
+import type { RouteRecordRaw } from 'vue-router'
+import type { VueRoute } from '../../src'
+import { describe, expect, it } from 'vitest'
+import { createMemoryHistory, createRouter } from 'vue-router'
+import { addFile, buildTree, createMatcher, matchFile, removeFile, toVueRouter4 } from '../../src'
+
+describe('matchFile', () => {
+  const tree = buildTree([
+    'pages/index.vue',
+    'pages/index@aside.vue',
+    'pages/users.vue',
+    'pages/users/index.vue',
+    'pages/users/new.vue',
+    'pages/users/[id].vue',
+    'pages/users/[id]/settings.vue',
+    'pages/docs/[[lang]]/intro.vue',
+    'pages/files/[path]+.vue',
+    'pages/tags/[[tags]]+.vue',
+    'pages/about.client.vue',
+    'pages/about.server.vue',
+    'pages/n/[id(\\d+)].vue',
+    'pages/[...slug].vue',
+  ], { roots: ['pages/'], modes: ['client', 'server'] })
+  const file = (url: string) => matchFile(tree, url)?.file.path
+
+  it('prefers static segments over dynamic and catch-all ones', () => {
+    expect(file('/')).toBe('pages/index.vue')
+    expect(file('/users')).toBe('pages/users/index.vue')
+    expect(file('/users/new')).toBe('pages/users/new.vue')
+    expect(file('/users/42')).toBe('pages/users/[id].vue')
+    expect(file('/nope/a/b')).toBe('pages/[...slug].vue')
+  })
+
+  it('extracts params', () => {
+    expect(matchFile(tree, '/users/42/settings')).toMatchObject({ file: { path: 'pages/users/[id]/settings.vue' }, params: { id: '42' } })
+    expect(matchFile(tree, '/nope/a/b')!.params).toEqual({ slug: ['nope', 'a', 'b'] })
+    expect(matchFile(tree, '/files/a/b')!.params).toEqual({ path: ['a', 'b'] })
+    expect(matchFile(tree, '/tags')!.params).toEqual({ tags: [] })
+    expect(matchFile(tree, '/users/caf%C3%A9')!.params).toEqual({ id: 'café' })
+  })
+
+  it('matches optional segments with and without a value', () => {
+    expect(matchFile(tree, '/docs/intro')).toMatchObject({ file: { path: 'pages/docs/[[lang]]/intro.vue' }, params: {} })
+    expect(matchFile(tree, '/docs/en/intro')!.params).toEqual({ lang: 'en' })
+  })
+
+  it('applies param constraints', () => {
+    expect(file('/n/12')).toBe('pages/n/[id(\\d+)].vue')
+    expect(file('/n/ab')).toBe('pages/[...slug].vue')
+  })
+
+  it('returns named views and modes', () => {
+    expect(matchFile(tree, '/')!.components).toEqual({ default: 'pages/index.vue', aside: 'pages/index@aside.vue' })
+    expect(matchFile(tree, '/about')).toMatchObject({ file: { path: 'pages/about.client.vue' }, modes: ['client', 'server'] })
+    expect(matchFile(tree, '/users')!.node).toBe(tree.root.children.get('users')!.children.get(''))
+  })
+
+  it('ignores query strings, hashes and trailing slashes', () => {
+    expect(file('/users/42/?tab=1#top')).toBe('pages/users/[id].vue')
+  })
+
+  it('returns undefined when nothing matches', () => {
+    const t = buildTree(['about.vue', 'users/[id].vue'])
+    expect(matchFile(t, '/')).toBeUndefined()
+    expect(matchFile(t, '/users')).toBeUndefined()
+    expect(matchFile(buildTree([]), '/')).toBeUndefined()
+  })
+
+  it('matches an empty catch-all and pathless layouts', () => {
+    expect(matchFile(buildTree(['[...slug].vue']), '/')!.params).toEqual({ slug: [] })
+
+    const remix = buildTree(['app/routes/_auth.tsx', 'app/routes/_auth.login.tsx'], { roots: ['app/routes/'], dialect: 'remix' })
+    expect(matchFile(remix, '/login')!.file.path).toBe('app/routes/_auth.login.tsx')
+  })
+
+  it('keeps the first of equally ranked routes', () => {
+    expect(matchFile(buildTree(['[id].vue', '[slug].vue']), '/x')!.file.path).toBe('[id].vue')
+    expect(matchFile(buildTree(['[a]/index.vue', '[b].vue']), '/x')!.file.path).toBe('[a]/index.vue')
+  })
+
+  it('uses named views when a route has no default view', () => {
+    const t = buildTree(['index@aside.vue'])
+    expect(matchFile(t, '/')).toMatchObject({ file: { path: 'index@aside.vue' } })
+  })
+})
+
+describe('createMatcher', () => {
+  const tree = buildTree([
+    'pages/index.vue',
+    'pages/index@aside.vue',
+    'pages/users.vue',
+    'pages/users/index.vue',
+    'pages/users/new.vue',
+    'pages/users/[id].vue',
+    'pages/users/[id]/posts/[...slug].vue',
+    'pages/docs/[[lang]]/intro.vue',
+    'pages/files/[path]+.vue',
+    'pages/tags/[[tags]]+.vue',
+    'pages/about.client.vue',
+    'pages/n/[id(\\d+)].vue',
+    'pages/[...slug].vue',
+  ], { roots: ['pages/'], modes: ['client', 'server'] })
+  const matcher = createMatcher(tree)
+  const file = (url: string) => matcher.match(url)?.route.file
+
+  it('ranks routes like toVueRouter4', () => {
+    expect(file('/')).toBe('pages/index.vue')
+    expect(file('/users')).toBe('pages/users/index.vue')
+    expect(file('/users/new')).toBe('pages/users/new.vue')
+    expect(file('/users/42')).toBe('pages/users/[id].vue')
+    expect(file('/n/12')).toBe('pages/n/[id(\\d+)].vue')
+    expect(file('/n/ab')).toBe('pages/[...slug].vue')
+    expect(file('/nope/a/b')).toBe('pages/[...slug].vue')
+  })
+
+  it('returns the matched chain of nested routes', () => {
+    expect(matcher.match('/users/42/posts/a/b')).toEqual({
+      route: { file: 'pages/users/[id]/posts/[...slug].vue', path: '/users/:id()/posts/:slug(.*)*', name: 'users-id-posts-slug' },
+      matched: [
+        { file: 'pages/users.vue', path: '/users' },
+        { file: 'pages/users/[id].vue', path: '/users/:id()', name: 'users-id' },
+        { file: 'pages/users/[id]/posts/[...slug].vue', path: '/users/:id()/posts/:slug(.*)*', name: 'users-id-posts-slug' },
+      ],
+      params: { id: '42', slug: ['a', 'b'] },
+    })
+    expect(matcher.match('/users')!.matched.map(r => r.file)).toEqual(['pages/users.vue', 'pages/users/index.vue'])
+  })
+
+  it('extracts params', () => {
+    expect(matcher.match('/files/a/b')!.params).toEqual({ path: ['a', 'b'] })
+    expect(matcher.match('/tags')!.params).toEqual({ tags: [] })
+    expect(matcher.match('/tags/a/b')!.params).toEqual({ tags: ['a', 'b'] })
+    expect(matcher.match('/docs/intro')!.params).toEqual({})
+    expect(matcher.match('/docs/en/intro')!.params).toEqual({ lang: 'en' })
+    expect(matcher.match('/users/caf%C3%A9')!.params).toEqual({ id: 'café' })
+  })
+
+  it('returns named views, modes and meta', () => {
+    expect(matcher.match('/')!.route.components).toEqual({ default: 'pages/index.vue', aside: 'pages/index@aside.vue' })
+    expect(matcher.match('/about')!.route.modes).toEqual(['client'])
+    const t = buildTree(['(admin)/users.vue'])
+    expect(createMatcher(t).match('/users')!.route.meta).toEqual({ groups: ['admin'] })
+  })
+
+  it('ignores query strings, hashes and trailing slashes', () => {
+    expect(file('/users/42/?tab=1#top')).toBe('pages/users/[id].vue')
+  })
+
+  it('keeps encoded slashes and empty segments within the path', () => {
+    expect(matchFile(tree, '/users/a%2Fb')).toMatchObject({ file: { path: 'pages/users/[id].vue' }, params: { id: 'a/b' } })
+    expect(matchFile(tree, '/users//new')).toMatchObject({ file: { path: 'pages/[...slug].vue' }, params: { slug: ['users', '', 'new'] } })
+  })
+
+  it('returns undefined when nothing matches', () => {
+    const m = createMatcher(buildTree(['about.vue', 'users/[id].vue']))
+    expect(m.match('/')).toBeUndefined()
+    expect(m.match('/users')).toBeUndefined()
+    expect(createMatcher(buildTree([])).match('/')).toBeUndefined()
+  })
+
+  it('keeps the first of equally ranked routes', () => {
+    expect(createMatcher(buildTree(['[id].vue', '[slug].vue'])).match('/x')!.route.file).toBe('[id].vue')
+  })
+
+  it('uses positional capture groups for clashing param names', () => {
+    const m = createMatcher(buildTree(['[user.id]/[userid].vue']))
+    expect(m.match('/a/b')!.params).toEqual({ 'user.id': 'a', 'userid': 'b' })
+  })
+
+  it('follows addFile and removeFile', () => {
+    const t = buildTree(['[...slug].vue'])
+    const m = createMatcher(t)
+    expect(m.match('/about')!.route.file).toBe('[...slug].vue')
+
+    addFile(t, 'about.vue')
+    expect(m.match('/about')!.route.file).toBe('about.vue')
+
+    // Emitting with other options doesn't leave the matcher stale
+    toVueRouter4(t, { getRouteName: () => 'x' })
+    removeFile(t, 'about.vue')
+    expect(m.match('/about')!.route.file).toBe('[...slug].vue')
+  })
+
+  it('passes getRouteName through', () => {
+    const m = createMatcher(buildTree(['about.vue']), { getRouteName: name => name.toUpperCase() })
+    expect(m.match('/about')!.route.name).toBe('ABOUT')
+  })
+})
+
+describe('ranking against vue-router', () => {
+  const files = [
+    'pages/index.vue',
+    'pages/p-[id].vue',
+    'pages/[name].vue',
+    'pages/[a]-[b].vue',
+    'pages/v[[version]].vue',
+    'pages/users.vue',
+    'pages/users/index.vue',
+    'pages/users/[id].vue',
+    'pages/users/[id]-[slug].vue',
+    'pages/users/[id]/[...rest].vue',
+    'pages/a/[[opt]].vue',
+    'pages/a/[ids]+.vue',
+    'pages/a/b-[[tags]]+.vue',
+    'pages/n/[id(\\d+)].vue',
+    'pages/n/[name].vue',
+    'pages/[...slug].vue',
+  ]
+  const urls = ['/', '/p-3', '/x', '/x-y', '/v', '/v2', '/users', '/users/1', '/users/1-a', '/users/1/a/b', '/users/1%2Fa', '/users//1', '/a', '/a/x', '/a/x/y', '/a/b-c', '/n/1', '/n/x', '/deep/er']
+  const tree = buildTree(files, { roots: ['pages/'] })
+
+  const toRecord = (route: VueRoute): RouteRecordRaw => ({
+    path: route.path,
+    name: route.name,
+    component: {},
+    meta: { file: route.file },
+    children: route.children.map(toRecord),
+  })
+  const router = createRouter({ history: createMemoryHistory(), routes: toVueRouter4(tree).map(toRecord) })
+  const expected = (url: string) => router.resolve(url).matched.map(r => r.meta.file)
+
+  it('matches the same routes as vue-router', () => {
+    const matcher = createMatcher(tree)
+    for (const url of urls)
+      expect([url, matcher.match(url)?.matched.map(r => r.file) ?? []]).toEqual([url, expected(url)])
+  })
+
+  it('matches the same files as vue-router in matchFile', () => {
+    for (const url of urls)
+      expect([url, matchFile(tree, url)?.file.path]).toEqual([url, expected(url).at(-1)])
+  })
+
+  it('extracts the same params as vue-router', () => {
+    for (const url of ['/users/1%2Fa', '/users//1', '/x%20y', '/deep/a%2Fb/c'])
+      expect([url, createMatcher(tree).match(url)!.params]).toEqual([url, router.resolve(url).params])
+  })
+
+  it('ranks static text within a segment before params', () => {
+    expect(createMatcher(tree).match('/p-3')).toMatchObject({ route: { file: 'pages/p-[id].vue' }, params: { id: '3' } })
+    expect(matchFile(tree, '/p-3')!.file.path).toBe('pages/p-[id].vue')
+  })
+})
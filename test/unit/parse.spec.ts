@@ -1,5 +1,8 @@
-import { describe, expect, it } from 'vitest'
-import { parsePath, parseSegment } from '../../src/parse'
+import type { ParsePathOptions } from '../../src/parse'
+import { describe, expect, it, vi } from 'vitest'
+import { createMemoryHistory, createRouter as createVueRouter } from 'vue-router'
+import { buildTree, migrateFilePath, toVueRouter4 } from '../../src'
+import { compileParsePath, parsePath, parseSegment, UnroutingParseError } from '../../src/parse'
 
 describe('parsing vue file paths', () => {
   const paths = [
@@ -565,6 +568,89 @@ describe('parseFile function', () => {
   })
 })
 
+describe('param matchers', () => {
+  it('parses matchers on every param type', () => {
+    expect(parseSegment('[id=int]')).toEqual([{ type: 'dynamic', value: 'id', matcher: 'int' }])
+    expect(parseSegment('[[page=int]]')).toEqual([{ type: 'optional', value: 'page', matcher: 'int' }])
+    expect(parseSegment('[...path=file]')).toEqual([{ type: 'catchall', value: 'path', matcher: 'file' }])
+    expect(parseSegment('[ids=int]+')).toEqual([{ type: 'repeatable', value: 'ids', matcher: 'int' }])
+    expect(parseSegment('[[ids=int]]+')).toEqual([{ type: 'optional-repeatable', value: 'ids', matcher: 'int' }])
+  })
+
+  it('parses matchers in mixed segments', () => {
+    expect(parseSegment('user-[id=uuid].json')).toEqual([
+      { type: 'static', value: 'user-' },
+      { type: 'dynamic', value: 'id', matcher: 'uuid' },
+      { type: 'static', value: '.json' },
+    ])
+  })
+
+  it('ignores an empty matcher and rejects a missing param name', () => {
+    expect(parseSegment('[id=]')).toEqual([{ type: 'dynamic', value: 'id' }])
+    expect(() => parseSegment('[=int]')).toThrow('Empty param')
+  })
+
+  it('warns about a second `=`', () => {
+    const warn = vi.fn()
+    expect(parseSegment('[id=int=x]', 'pages/[id=int=x].vue', warn)).toEqual([{ type: 'dynamic', value: 'id', matcher: 'intx' }])
+    expect(warn).toHaveBeenCalledOnce()
+  })
+
+  it('is not read by the next dialect', () => {
+    const warn = vi.fn()
+    const [result] = parsePath(['app/[id=int]/page.tsx'], { roots: ['app/'], dialect: 'next', warn })
+    expect(result.segments[0]).toEqual([{ type: 'dynamic', value: 'idint' }])
+    expect(warn).toHaveBeenCalledOnce()
+  })
+})
+
+describe('inline constraints', () => {
+  it('stores the regexp on the token', () => {
+    expect(parseSegment('[id(\\d+)]')).toEqual([{ type: 'dynamic', value: 'id', regexp: '\\d+' }])
+    expect(parseSegment('[[lang(en|de)]]')).toEqual([{ type: 'optional', value: 'lang', regexp: 'en|de' }])
+    expect(parseSegment('[...path(.+\\.md)]')).toEqual([{ type: 'catchall', value: 'path', regexp: '.+\\.md' }])
+    expect(parseSegment('[ids(\\d+)]+')).toEqual([{ type: 'repeatable', value: 'ids', regexp: '\\d+' }])
+    expect(parseSegment('v-[n(\\d+)].json')).toEqual([
+      { type: 'static', value: 'v-' },
+      { type: 'dynamic', value: 'n', regexp: '\\d+' },
+      { type: 'static', value: '.json' },
+    ])
+  })
+
+  it('keeps brackets and escapes inside the regexp', () => {
+    expect(parseSegment('[p([a-z\\]]+)]')).toEqual([{ type: 'dynamic', value: 'p', regexp: '[a-z\\]]+' }])
+    expect(parseSegment('[v(\\d+\\.\\d+)]')).toEqual([{ type: 'dynamic', value: 'v', regexp: '\\d+\\.\\d+' }])
+  })
+
+  it('rejects parentheses inside the regexp', () => {
+    expect(() => parseSegment('[id((?:x|y)z)]')).toThrowError(expect.objectContaining({ code: 'INVALID_CONSTRAINT', message: 'Parentheses in constraint "(?:x|y"', start: 3, end: 11 }))
+    expect(() => parseSegment('[id([a-z)]+)]')).toThrowError(expect.objectContaining({ code: 'INVALID_CONSTRAINT', message: 'Invalid constraint "[a-z"' }))
+    expect(() => parseSegment('[s(\\))]')).toThrowError(expect.objectContaining({ code: 'INVALID_CONSTRAINT', message: 'Invalid constraint "\\"' }))
+  })
+
+  it('emits constraints vue-router accepts', () => {
+    const routes = toVueRouter4(buildTree(['pages/a/[id(\\d+)].vue', 'pages/b/[p([a-z\\]]+)].vue', 'pages/c/[[lang(en|de)]].vue'], { roots: ['pages/'] }))
+    const router = createVueRouter({ history: createMemoryHistory(), routes: routes.map(r => ({ path: r.path, component: {} })) })
+    expect(router.resolve('/a/42').matched).toHaveLength(1)
+    expect(router.resolve('/b/x]').params).toEqual({ p: 'x]' })
+    expect(router.resolve('/c/de').params).toEqual({ lang: 'de' })
+  })
+
+  it('ignores an empty constraint', () => {
+    expect(parseSegment('[id()]')).toEqual([{ type: 'dynamic', value: 'id' }])
+  })
+
+  it('rejects unfinished and invalid constraints', () => {
+    expect(() => parseSegment('[id(\\d+]')).toThrowError(expect.objectContaining({ code: 'INVALID_CONSTRAINT', message: 'Unfinished constraint "(\\d+]"', start: 3, end: 8 }))
+    expect(() => parseSegment('[id(*)]', 'pages/[id(*)].vue')).toThrowError(expect.objectContaining({ code: 'INVALID_CONSTRAINT', message: 'Invalid constraint "*" in "pages/[id(*)].vue"', start: 3, end: 6 }))
+  })
+
+  it('keeps constrained and unconstrained params on separate nodes', () => {
+    const tree = buildTree(['[id(\\d+)].vue', '[id].vue'])
+    expect([...tree.root.children.keys()]).toEqual(['[id(\\d+)]', '[id]'])
+  })
+})
+
 describe('group segments', () => {
   it('parses group segments', () => {
     const result = parseSegment('(group)')
@@ -588,6 +674,136 @@ describe('group segments', () => {
   })
 })
 
+describe('structured parse errors', () => {
+  function catchError(fn: () => unknown): UnroutingParseError {
+    try {
+      fn()
+    }
+    catch (error) {
+      return error as UnroutingParseError
+    }
+    throw new Error('Expected an error to be thrown')
+  }
+
+  it('throws UnroutingParseError with code, segment and offsets from parseSegment', () => {
+    const error = catchError(() => parseSegment('prefix-[]'))
+    expect(error).toBeInstanceOf(UnroutingParseError)
+    expect(error.name).toBe('UnroutingParseError')
+    expect(error).toMatchObject({
+      code: 'EMPTY_PARAM',
+      file: undefined,
+      segment: 'prefix-[]',
+      start: 7,
+      end: 9,
+      message: 'Empty param',
+    })
+    expect(error.hint).toContain('[id]')
+  })
+
+  it('reports each error code', () => {
+    expect(catchError(() => parseSegment('()'))).toMatchObject({ code: 'EMPTY_GROUP', start: 0, end: 2 })
+    expect(catchError(() => parseSegment('a(group'))).toMatchObject({ code: 'UNFINISHED_GROUP', start: 1, end: 7 })
+    expect(catchError(() => parseSegment('[slug'))).toMatchObject({ code: 'UNFINISHED_PARAM', start: 0, end: 5 })
+    expect(catchError(() => parseSegment('[[]]'))).toMatchObject({ code: 'EMPTY_PARAM', start: 0, end: 4 })
+  })
+
+  it('includes the file path when passed to parseSegment', () => {
+    const error = catchError(() => parseSegment('[]', 'pages/[].vue'))
+    expect(error.file).toBe('pages/[].vue')
+    expect(error.message).toBe('Empty param in "pages/[].vue"')
+  })
+
+  it('maps offsets from parsePath onto the original file path', () => {
+    const file = 'src/pages/users/[id]/posts-[slug.vue'
+    const error = catchError(() => parsePath([file], { roots: ['src/pages/'] }))
+    expect(error).toMatchObject({ code: 'UNFINISHED_PARAM', file, segment: 'posts-[slug' })
+    expect(file.slice(error.start, error.end)).toBe('[slug')
+  })
+
+  it('accounts for leading slashes and stripped named views', () => {
+    const file = '/users/[]/index.vue'
+    const error = catchError(() => parsePath([file]))
+    expect(file.slice(error.start, error.end)).toBe('[]')
+
+    const after = 'users/[id@aside.vue'
+    const viewError = catchError(() => parsePath([after]))
+    expect(viewError.code).toBe('UNFINISHED_PARAM')
+    expect(after.slice(viewError.start, viewError.end)).toBe('[id@aside')
+
+    const before = '[]/list@aside.vue'
+    const beforeError = catchError(() => parsePath([before]))
+    expect(before.slice(beforeError.start, beforeError.end)).toBe('[]')
+  })
+
+  it('is thrown from buildTree for duplicate files', () => {
+    const error = catchError(() => buildTree(['a.vue', 'a.vue'], { duplicateStrategy: 'error' }))
+    expect(error).toBeInstanceOf(UnroutingParseError)
+    expect(error).toMatchObject({ code: 'DUPLICATE_FILE', file: 'a.vue', start: 0, end: 5 })
+  })
+})
+
+describe('diagnostics collect mode', () => {
+  it('skips malformed files and returns diagnostics alongside the paths', () => {
+    const result = parsePath(['pages/about.vue', 'pages/[id.vue', 'pages/[].vue'], { roots: ['pages/'], diagnostics: 'collect' })
+    expect(result.paths.map(p => p.file)).toEqual(['pages/about.vue'])
+    expect(result.diagnostics).toEqual([
+      {
+        severity: 'error',
+        code: 'UNFINISHED_PARAM',
+        file: 'pages/[id.vue',
+        range: { start: 6, end: 9 },
+        message: 'Unfinished param "id" in "pages/[id.vue"',
+        hint: 'Close the parameter with `]`.',
+      },
+      {
+        severity: 'error',
+        code: 'EMPTY_PARAM',
+        file: 'pages/[].vue',
+        range: { start: 6, end: 8 },
+        message: 'Empty param in "pages/[].vue"',
+        hint: 'Add a parameter name between the brackets, e.g. `[id]`.',
+      },
+    ])
+  })
+
+  it('reports invalid param characters as warnings and still calls warn', () => {
+    const warnings: string[] = []
+    const result = parsePath(['users/[a#b].vue'], { diagnostics: 'collect', warn: message => warnings.push(message) })
+    expect(result.paths).toHaveLength(1)
+    expect(warnings).toHaveLength(1)
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', code: 'INVALID_PARAM_CHAR', file: 'users/[a#b].vue', range: { start: 8, end: 9 }, message: warnings[0] }),
+    ])
+  })
+
+  it('throws by default', () => {
+    expect(() => parsePath(['[id.vue'], { diagnostics: 'throw' })).toThrow(UnroutingParseError)
+  })
+
+  it('rethrows errors that are not parse errors', () => {
+    const warn = () => {
+      throw new Error('boom')
+    }
+    expect(() => parsePath(['[a#b].vue'], { diagnostics: 'collect', warn })).toThrow('boom')
+  })
+
+  it('returns diagnostics and skipped files when a compiled parser is called directly', () => {
+    const parse = compileParsePath({ diagnostics: 'collect', ignore: ['*.md'] })
+    const { paths, diagnostics, skipped } = parse(['ok.vue', '[bad.vue', 'notes.md'])
+    expect(paths.map(p => p.file)).toEqual(['ok.vue'])
+    expect(diagnostics).toEqual([expect.objectContaining({ code: 'UNFINISHED_PARAM', file: '[bad.vue' })])
+    expect(skipped).toEqual([{ file: 'notes.md', reason: 'ignored', pattern: '*.md' }])
+  })
+
+  it('types the result as either shape when the mode is not known statically', () => {
+    const options: ParsePathOptions = { diagnostics: 'collect' }
+    const result = parsePath(['ok.vue'], options)
+    const paths = Array.isArray(result) ? result : result.paths
+    expect(paths.map(p => p.file)).toEqual(['ok.vue'])
+    expect(compileParsePath(options)(['ok.vue'])).toEqual({ paths, diagnostics: [], skipped: [] })
+  })
+})
+
 describe('multiple extensions support', () => {
   it('handles custom extensions', () => {
     expect(parsePath(['api/users.json'], { extensions: ['.vue', '.json'] })[0]).toMatchObject({
@@ -798,3 +1014,258 @@ describe('roots', () => {
     ])
   })
 })
+
+describe('ignore patterns', () => {
+  const files = (paths: string[], ignore: Array<string | ((filePath: string) => boolean)>) =>
+    parsePath(paths, { roots: ['pages/'], ignore }).map(p => p.file)
+
+  it('matches names at any depth when the pattern has no slash', () => {
+    expect(files(['pages/index.vue', 'pages/index.spec.ts', 'pages/users/[id].spec.ts'], ['*.spec.ts']))
+      .toEqual(['pages/index.vue'])
+    expect(files(['pages/-utils.ts', 'pages/users/-helpers/format.ts', 'pages/users/index.vue'], ['-*']))
+      .toEqual(['pages/users/index.vue'])
+    expect(files(['pages/a.vue', 'pages/ab.vue'], ['?.vue'])).toEqual(['pages/ab.vue'])
+  })
+
+  it('only matches folders with a trailing slash', () => {
+    expect(files(['pages/_components', 'pages/blog/_components/Card.vue', 'pages/blog/index.vue'], ['_components/']))
+      .toEqual(['pages/_components', 'pages/blog/index.vue'])
+  })
+
+  it('anchors patterns containing a slash to the root', () => {
+    const paths = ['pages/admin/index.vue', 'pages/admin/users/[id].vue', 'pages/blog/admin/index.vue']
+    expect(files(paths, ['admin/**'])).toEqual(['pages/blog/admin/index.vue'])
+    expect(files(paths, ['/admin'])).toEqual(['pages/blog/admin/index.vue'])
+    expect(files(paths, ['**/admin/index.vue'])).toEqual(['pages/admin/users/[id].vue'])
+  })
+
+  it('escapes regexp characters in globs', () => {
+    expect(files(['pages/[id].vue', 'pages/i.vue'], ['[id].vue'])).toEqual(['pages/i.vue'])
+  })
+
+  it('calls predicates with the original file path', () => {
+    const predicate = vi.fn((filePath: string) => filePath.includes('/draft'))
+    expect(files(['pages/index.vue', 'pages/drafts.vue'], [predicate])).toEqual(['pages/index.vue'])
+    expect(predicate).toHaveBeenCalledWith('pages/index.vue')
+  })
+
+  it('is applied before parsing', () => {
+    expect(() => parsePath(['pages/[broken.vue'], { ignore: ['[broken.vue'] })).not.toThrow()
+  })
+})
+
+describe('next dialect', () => {
+  const parseNext = (files: string[]) => parsePath(files, { roots: ['app/'], dialect: 'next' })
+
+  it('maps page, route and layout files to their folder', () => {
+    expect(parseNext(['app/page.tsx', 'app/layout.tsx', 'app/blog/page.tsx', 'app/blog/layout.tsx', 'app/api/users/route.ts'])).toEqual([
+      { file: 'app/page.tsx', segments: [[{ type: 'static', value: '' }]] },
+      { file: 'app/layout.tsx', segments: [] },
+      { file: 'app/blog/page.tsx', segments: [[{ type: 'static', value: 'blog' }], [{ type: 'static', value: '' }]] },
+      { file: 'app/blog/layout.tsx', segments: [[{ type: 'static', value: 'blog' }]] },
+      { file: 'app/api/users/route.ts', segments: [[{ type: 'static', value: 'api' }], [{ type: 'static', value: 'users' }], [{ type: 'static', value: '' }]], meta: { modes: ['server'] } },
+    ])
+  })
+
+  it('tells route handlers apart from pages', () => {
+    const tree = buildTree(['app/users/page.tsx', 'app/api/users/route.ts'], { roots: ['app/'], dialect: 'next' })
+    expect(toVueRouter4(tree).map(r => [r.file, r.modes])).toEqual([
+      ['app/api/users/route.ts', ['server']],
+      ['app/users/page.tsx', undefined],
+    ])
+  })
+
+  it('skips files that are not routes and private folders', () => {
+    expect(parseNext(['app/blog/loading.tsx', 'app/not-found.tsx', 'app/_components/page.tsx', 'app/blog/_lib/utils/route.ts'])).toEqual([])
+  })
+
+  it('maps catch-all segments', () => {
+    const [required, optional] = parseNext(['app/shop/[...slug]/page.tsx', 'app/docs/[[...slug]]/page.tsx'])
+    expect(required.segments[1]).toEqual([{ type: 'repeatable', value: 'slug' }])
+    expect(optional.segments[1]).toEqual([{ type: 'catchall', value: 'slug' }])
+  })
+
+  it('parses route groups as pathless layouts and renders @slot folders into named views', () => {
+    const [grouped, slot] = parseNext(['app/(marketing)/about/page.tsx', 'app/dashboard/@team/settings/page.tsx'])
+    expect(grouped.segments[0]).toEqual([{ type: 'group', value: 'marketing' }, { type: 'static', value: '' }])
+    expect(slot).toEqual({
+      file: 'app/dashboard/@team/settings/page.tsx',
+      segments: [[{ type: 'static', value: 'dashboard' }], [{ type: 'static', value: 'settings' }], [{ type: 'static', value: '' }]],
+      meta: { name: 'team', viewOnly: true },
+    })
+  })
+
+  it('skips intercepting routes', () => {
+    const files = ['app/feed/(.)photo/page.tsx', 'app/feed/(..)(..)photo/[id]/page.tsx', 'app/@modal/(...)login/page.tsx', 'app/(shop)/cart/page.tsx']
+    expect(parseNext(files).map(p => p.file)).toEqual(['app/(shop)/cart/page.tsx'])
+  })
+
+  it('does not treat @ in file names as named views', () => {
+    expect(parseNext(['app/page@aside.tsx'])).toEqual([])
+  })
+
+  it('reports errors against the original file', () => {
+    const { paths, diagnostics } = parsePath(['app/blog/(group)/[slug/page.tsx'], { roots: ['app/'], dialect: 'next', diagnostics: 'collect' })
+    expect(paths).toEqual([])
+    const [{ file, range, code }] = diagnostics
+    expect(code).toBe('UNFINISHED_PARAM')
+    expect(file.slice(range.start, range.end)).toBe('[slug')
+  })
+})
+
+describe('sveltekit dialect', () => {
+  const parseSvelte = (files: string[]) => parsePath(files, { roots: ['src/routes/'], dialect: 'sveltekit' })
+
+  it('maps +page, +layout and +server files to their folder', () => {
+    expect(parseSvelte(['src/routes/+page.svelte', 'src/routes/blog/+layout.svelte', 'src/routes/api/posts/+server.ts'])).toEqual([
+      { file: 'src/routes/+page.svelte', segments: [[{ type: 'static', value: '' }]] },
+      { file: 'src/routes/blog/+layout.svelte', segments: [[{ type: 'static', value: 'blog' }]] },
+      { file: 'src/routes/api/posts/+server.ts', segments: [[{ type: 'static', value: 'api' }], [{ type: 'static', value: 'posts' }], [{ type: 'static', value: '' }]], meta: { modes: ['server'] } },
+    ])
+  })
+
+  it('skips load functions and other files', () => {
+    expect(parseSvelte(['src/routes/+page.ts', 'src/routes/+layout.server.ts', 'src/routes/+error.svelte', 'src/routes/+server.svelte', 'src/routes/blog/Card.svelte'])).toEqual([])
+  })
+
+  it('parses param matchers', () => {
+    const [required, optional, rest] = parseSvelte(['src/routes/items/[id=int]/+page.svelte', 'src/routes/[[lang=locale]]/+page.svelte', 'src/routes/[...path=file]+/+page.svelte'])
+    expect(required.segments[1]).toEqual([{ type: 'dynamic', value: 'id', matcher: 'int' }])
+    expect(optional.segments[0]).toEqual([{ type: 'optional', value: 'lang', matcher: 'locale' }])
+    expect(rest.segments[0]).toEqual([{ type: 'repeatable', value: 'path', matcher: 'file' }])
+  })
+
+  it('parses optional, rest and group folders and ignores layout resets', () => {
+    const [result] = parseSvelte(['src/routes/(app)/[[lang]]/docs/[...rest]/+page@(app).svelte'])
+    expect(result.segments).toEqual([
+      [{ type: 'group', value: 'app' }, { type: 'static', value: '' }],
+      [{ type: 'optional', value: 'lang' }],
+      [{ type: 'static', value: 'docs' }],
+      [{ type: 'catchall', value: 'rest' }],
+      [{ type: 'static', value: '' }],
+    ])
+  })
+
+  it('keeps pages and endpoints for the same folder side by side', () => {
+    const tree = buildTree(['src/routes/items/[id=int]/+page.svelte', 'src/routes/items/[id=int]/+server.ts', 'src/routes/items/[id]/+page.svelte'], { roots: ['src/routes/'], dialect: 'sveltekit' })
+    const items = tree.root.children.get('items')!
+    expect([...items.children.keys()]).toEqual(['[id=int]', '[id]'])
+    expect(items.children.get('[id=int]')!.children.get('')!.files.map(f => f.path)).toEqual(['src/routes/items/[id=int]/+page.svelte', 'src/routes/items/[id=int]/+server.ts'])
+  })
+})
+
+describe('remix dialect', () => {
+  const parseRemix = (files: string[]) => parsePath(files, { roots: ['app/routes/'], dialect: 'remix' })
+
+  it('splits file names on dots', () => {
+    expect(parseRemix(['app/routes/_index.tsx', 'app/routes/concerts.trending.tsx', 'app/routes/concerts._index.tsx'])).toEqual([
+      { file: 'app/routes/_index.tsx', segments: [[{ type: 'static', value: '' }]] },
+      { file: 'app/routes/concerts.trending.tsx', segments: [[{ type: 'static', value: 'concerts' }], [{ type: 'static', value: 'trending' }]] },
+      { file: 'app/routes/concerts._index.tsx', segments: [[{ type: 'static', value: 'concerts' }], [{ type: 'static', value: '' }]] },
+    ])
+  })
+
+  it('parses params, optional params and splats', () => {
+    const [dynamic, optional, splat] = parseRemix(['app/routes/concerts.$city.tsx', 'app/routes/($lang).about.tsx', 'app/routes/files.$.tsx'])
+    expect(dynamic.segments[1]).toEqual([{ type: 'dynamic', value: 'city' }])
+    expect(optional.segments[0]).toEqual([{ type: 'optional', value: 'lang' }])
+    expect(splat.segments[1]).toEqual([{ type: 'catchall', value: '_splat' }])
+  })
+
+  it('parses pathless layouts and nesting opt-outs', () => {
+    const [pathless, unnested] = parseRemix(['app/routes/_auth.login.tsx', 'app/routes/concerts_.$city_.edit.tsx'])
+    expect(pathless.segments).toEqual([[{ type: 'group', value: 'auth' }, { type: 'static', value: '' }], [{ type: 'static', value: 'login' }]])
+    expect(unnested.segments).toEqual([
+      [{ type: 'static', value: 'concerts', unnested: true }],
+      [{ type: 'dynamic', value: 'city', unnested: true }],
+      [{ type: 'static', value: 'edit' }],
+    ])
+  })
+
+  it('keeps escaped characters literal', () => {
+    const [sitemap, dollar] = parseRemix(['app/routes/sitemap[.]xml.tsx', 'app/routes/[$]pricing.[_]internal.tsx'])
+    expect(sitemap.segments).toEqual([[{ type: 'static', value: 'sitemap.xml' }]])
+    expect(dollar.segments).toEqual([[{ type: 'static', value: '$pricing' }], [{ type: 'static', value: '_internal' }]])
+  })
+
+  it('reads route modules from folders and skips colocated files', () => {
+    expect(parseRemix(['app/routes/blog.$slug/route.tsx', 'app/routes/blog.$slug/card.tsx', 'app/routes/blog/nested/route.tsx'])).toEqual([
+      { file: 'app/routes/blog.$slug/route.tsx', segments: [[{ type: 'static', value: 'blog' }], [{ type: 'dynamic', value: 'slug' }]] },
+    ])
+  })
+})
+
+describe('tanstack dialect', () => {
+  const parseTanStack = (files: string[]) => parsePath(files, { roots: ['src/routes/'], dialect: 'tanstack' })
+
+  it('treats folders and dots as separators', () => {
+    const [nested, flat] = parseTanStack(['src/routes/posts/$postId.tsx', 'src/routes/posts.$postId.tsx'])
+    expect(nested.segments).toEqual([[{ type: 'static', value: 'posts' }], [{ type: 'dynamic', value: 'postId' }]])
+    expect(flat.segments).toEqual(nested.segments)
+  })
+
+  it('maps __root, index and route files', () => {
+    expect(parseTanStack(['src/routes/__root.tsx', 'src/routes/index.tsx', 'src/routes/posts/route.tsx', 'src/routes/posts/index.tsx'])).toEqual([
+      { file: 'src/routes/__root.tsx', segments: [] },
+      { file: 'src/routes/index.tsx', segments: [[{ type: 'static', value: '' }]] },
+      { file: 'src/routes/posts/route.tsx', segments: [[{ type: 'static', value: 'posts' }]] },
+      { file: 'src/routes/posts/index.tsx', segments: [[{ type: 'static', value: 'posts' }], [{ type: 'static', value: '' }]] },
+    ])
+  })
+
+  it('adds the lazy mode for code-split files', () => {
+    expect(parseTanStack(['src/routes/posts/$postId.lazy.tsx', 'src/routes/posts/route.lazy.tsx'])).toEqual([
+      { file: 'src/routes/posts/$postId.lazy.tsx', segments: [[{ type: 'static', value: 'posts' }], [{ type: 'dynamic', value: 'postId' }]], meta: { modes: ['lazy'] } },
+      { file: 'src/routes/posts/route.lazy.tsx', segments: [[{ type: 'static', value: 'posts' }]], meta: { modes: ['lazy'] } },
+    ])
+  })
+
+  it('parses splats, pathless layouts, groups and nesting opt-outs', () => {
+    const [splat, pathless, group, unnested] = parseTanStack(['src/routes/files/$.tsx', 'src/routes/_auth/login.tsx', 'src/routes/(app)/settings.tsx', 'src/routes/posts_.$postId.edit.tsx'])
+    expect(splat.segments[1]).toEqual([{ type: 'catchall', value: '_splat' }])
+    expect(pathless.segments[0]).toEqual([{ type: 'group', value: 'auth' }, { type: 'static', value: '' }])
+    expect(group.segments[0]).toEqual([{ type: 'group', value: 'app' }])
+    expect(unnested.segments[0]).toEqual([{ type: 'static', value: 'posts', unnested: true }])
+  })
+
+  it('skips files and folders prefixed with -', () => {
+    expect(parseTanStack(['src/routes/-components/header.tsx', 'src/routes/posts/-card.tsx', 'src/routes/posts.-utils.ts'])).toEqual([])
+  })
+})
+
+describe('nuxt2 dialect', () => {
+  it('parses legacy underscore params alongside the modern syntax', () => {
+    expect(parsePath(['pages/users/_id/index.vue', 'pages/_.vue', 'pages/[slug]/_id.client.vue'], { roots: ['pages/'], modes: ['client'], dialect: 'nuxt2' })).toEqual([
+      { file: 'pages/users/_id/index.vue', segments: [[{ type: 'static', value: 'users' }], [{ type: 'dynamic', value: 'id' }], [{ type: 'static', value: '' }]] },
+      { file: 'pages/_.vue', segments: [[{ type: 'catchall', value: 'pathMatch' }]] },
+      { file: 'pages/[slug]/_id.client.vue', segments: [[{ type: 'dynamic', value: 'slug' }], [{ type: 'dynamic', value: 'id' }]], meta: { modes: ['client'] } },
+    ])
+  })
+
+  it('is opt-in for parseSegment', () => {
+    expect(parseSegment('_id')).toEqual([{ type: 'static', value: '_id' }])
+    expect(parseSegment('_id', undefined, undefined, { dialect: 'nuxt2' })).toEqual([{ type: 'dynamic', value: 'id' }])
+    expect(parseSegment('_', undefined, undefined, { dialect: 'nuxt2' })).toEqual([{ type: 'catchall', value: 'pathMatch' }])
+    expect(parseSegment('[slug]', undefined, undefined, { dialect: 'nuxt2' })).toEqual([{ type: 'dynamic', value: 'slug' }])
+  })
+})
+
+describe('migrateFilePath', () => {
+  it('renames legacy params to the bracket syntax', () => {
+    expect(migrateFilePath('users/_id/_.vue')).toBe('users/[id]/[...pathMatch].vue')
+    expect(migrateFilePath('posts/_slug.client.vue')).toBe('posts/[slug].client.vue')
+  })
+
+  it('leaves roots and other segments untouched', () => {
+    const roots = ['pages', '_layer/pages/']
+    expect(migrateFilePath('_layer/pages/_id.vue', { roots })).toBe('_layer/pages/[id].vue')
+    expect(migrateFilePath('pages/about/[slug].vue', { roots })).toBe('pages/about/[slug].vue')
+    expect(migrateFilePath('pages/.hidden', { roots })).toBe('pages/.hidden')
+  })
+
+  it('produces paths that parse like their legacy originals', () => {
+    const legacy = ['pages/users/_id/index.vue', 'pages/_.vue']
+    expect(parsePath(legacy.map(file => migrateFilePath(file)), { roots: ['pages/'] }).map(p => p.segments))
+      .toEqual(parsePath(legacy, { roots: ['pages/'], dialect: 'nuxt2' }).map(p => p.segments))
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { addFile, buildTree, resolveFileRoute } from '../../src'
+
+describe('resolveFileRoute', () => {
+  const options = { roots: ['pages/'], modes: ['client', 'server'] }
+  const tree = buildTree([
+    'pages/index.vue',
+    'pages/index@aside.vue',
+    'pages/users.vue',
+    'pages/users/[id].vue',
+    'pages/users/[id]/index.vue',
+    'pages/users/[id]/edit.vue',
+    'pages/(admin)/dash.client.vue',
+    'pages/(admin)/dash.server.vue',
+  ], options)
+
+  it('resolves top-level routes', () => {
+    expect(resolveFileRoute(tree, 'pages/users.vue')).toEqual({
+      file: 'pages/users.vue',
+      path: '/users',
+      name: 'users',
+      viewName: 'default',
+      children: ['pages/users/[id].vue'],
+      chain: ['pages/users.vue'],
+      groups: [],
+    })
+  })
+
+  it('resolves full paths and parents of nested routes', () => {
+    expect(resolveFileRoute(tree, 'pages/users/[id]/index.vue')).toEqual({
+      file: 'pages/users/[id]/index.vue',
+      path: '/users/:id()',
+      name: 'users-id',
+      viewName: 'default',
+      parent: 'pages/users/[id].vue',
+      children: [],
+      chain: ['pages/users.vue', 'pages/users/[id].vue', 'pages/users/[id]/index.vue'],
+      groups: [],
+    })
+    expect(resolveFileRoute(tree, 'pages/users/[id].vue')).toMatchObject({
+      parent: 'pages/users.vue',
+      children: ['pages/users/[id]/edit.vue', 'pages/users/[id]/index.vue'],
+    })
+  })
+
+  it('resolves named views and mode variants to the route they belong to', () => {
+    expect(resolveFileRoute(tree, 'pages/index@aside.vue')).toMatchObject({ file: 'pages/index.vue', path: '/', viewName: 'aside' })
+    expect(resolveFileRoute(tree, 'pages/(admin)/dash.server.vue')).toMatchObject({
+      file: 'pages/(admin)/dash.client.vue',
+      path: '/dash',
+      groups: ['admin'],
+      modes: ['client', 'server'],
+    })
+  })
+
+  it('uses the given route name generator', () => {
+    const getRouteName = (rawName: string) => `app:${rawName}`
+    expect(resolveFileRoute(tree, 'pages/users.vue', { getRouteName })!.name).toBe('app:users')
+    expect(resolveFileRoute(tree, 'pages/users.vue', { getRouteName: rawName => `admin:${rawName}` })!.name).toBe('admin:users')
+  })
+
+  it('returns undefined for unknown, shadowed and unrouted files', () => {
+    expect(resolveFileRoute(tree, 'pages/nope.vue')).toBeUndefined()
+
+    const layered = buildTree([
+      { path: 'layer/pages/about.vue', priority: 1 },
+      { path: 'app/pages/about.vue', priority: 0 },
+    ], { roots: ['app/pages/', 'layer/pages/'] })
+    expect(resolveFileRoute(layered, 'layer/pages/about.vue')).toBeUndefined()
+    expect(resolveFileRoute(layered, 'app/pages/about.vue')).toMatchObject({ path: '/about' })
+
+    // Named views without a default view in their groups emit no route
+    expect(resolveFileRoute(buildTree(['index.vue', '(x)/index@aside.vue']), '(x)/index@aside.vue')).toBeUndefined()
+  })
+
+  it('reflects tree mutations', () => {
+    const mutable = buildTree(['pages/users/[id].vue'], options)
+    expect(resolveFileRoute(mutable, 'pages/users/[id].vue')).toMatchObject({ path: '/users/:id()', chain: ['pages/users/[id].vue'] })
+    addFile(mutable, 'pages/users.vue', options)
+    expect(resolveFileRoute(mutable, 'pages/users/[id].vue')).toMatchObject({ parent: 'pages/users.vue', chain: ['pages/users.vue', 'pages/users/[id].vue'] })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { addFile, buildTree, deserializeTree, getLayerReport, removeFile, serializeTree, toRegExp, toRou3, toVueRouter4 } from '../../src'
+
+const roots = ['pages/', 'layer/pages/']
+const input = [
+  { path: 'pages/index.vue', priority: 0 },
+  { path: 'pages/users.vue', priority: 0 },
+  { path: 'pages/users/[id=int].vue', priority: 0 },
+  { path: 'pages/users/index.client.vue', priority: 0 },
+  { path: 'pages/(admin)/settings@aside.vue', priority: 0 },
+  { path: 'layer/pages/users/[id=int].vue', priority: 1, layer: 'base' },
+  { path: 'layer/pages/[...slug].vue', priority: 1, layer: 'base' },
+]
+
+describe('serializeTree / deserializeTree', () => {
+  it('round-trips nodes, files and converter output', () => {
+    const tree = buildTree(input, { roots, modes: ['client'], matchers: { int: /^\d+$/, slug: '[a-z-]+' }, duplicateParams: 'suffix' })
+    const restored = deserializeTree(serializeTree(tree))
+    expect(restored['~dirty']).toBe(true)
+
+    expect(toVueRouter4(restored)).toEqual(toVueRouter4(tree))
+    expect(toRou3(restored).routes).toEqual(toRou3(tree).routes)
+    expect(toRegExp(restored)).toEqual(toRegExp(tree))
+    expect(getLayerReport(restored)).toEqual(getLayerReport(tree))
+    expect(restored['~matchers']).toEqual({ int: '^\\d+$', slug: '[a-z-]+' })
+    expect(restored['~duplicateParams']).toBe('suffix')
+  })
+
+  it('rebuilds the file indexes and parent links', () => {
+    const tree = buildTree(input, { roots })
+    const restored = deserializeTree(serializeTree(tree))
+
+    expect([...restored['~fileIndex'].keys()].sort()).toEqual([...tree['~fileIndex'].keys()].sort())
+    expect([...restored['~shadowIndex'].keys()]).toEqual(['layer/pages/users/[id=int].vue'])
+    const users = restored.root.children.get('users')!
+    expect(restored['~fileIndex'].get('pages/users/[id=int].vue')!.parent).toBe(users)
+    expect(users.parent).toBe(restored.root)
+  })
+
+  it('keeps diagnostics and skipped files', () => {
+    const tree = buildTree(['[id.vue', 'about.vue', 'about.spec.ts'], { diagnostics: 'collect', ignore: ['*.spec.ts'] })
+    const restored = deserializeTree(serializeTree(tree))
+    expect(restored.diagnostics).toEqual(tree.diagnostics)
+    expect(restored.skipped).toEqual(tree.skipped)
+    expect(restored['~matchers']).toBeUndefined()
+  })
+
+  it('applies incremental updates to a restored tree', () => {
+    const tree = buildTree(input, { roots })
+    const restored = deserializeTree(serializeTree(tree))
+
+    removeFile(restored, 'pages/users/[id=int].vue')
+    addFile(restored, 'pages/about.vue', { roots })
+    removeFile(tree, 'pages/users/[id=int].vue')
+    addFile(tree, 'pages/about.vue', { roots })
+
+    expect(toVueRouter4(restored)).toEqual(toVueRouter4(tree))
+    expect(getLayerReport(restored).find(e => e.relativePath === 'users/[id=int].vue')!.winner.layer).toBe('base')
+  })
+
+  it('rejects other format versions', () => {
+    const json = JSON.parse(serializeTree(buildTree(['about.vue'])))
+    expect(() => deserializeTree(JSON.stringify({ ...json, version: 0 }))).toThrow('format version 0; expected version 1')
+    expect(() => deserializeTree('null')).toThrow(TypeError)
+  })
+})